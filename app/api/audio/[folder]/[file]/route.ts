@@ -0,0 +1,64 @@
+import { NextResponse } from 'next/server';
+import { cacheablePublicly, canSeeGalaxy, viewerOf } from '@/lib/access';
+import { getGalaxy } from '@/lib/galaxies';
+import path from 'path';
+import { Readable } from 'stream';
+import { safeFolderName } from '@/lib/photos';
+import { AUDIO_EXTS, audioContentType } from '@/lib/soundscape';
+import { storage, type ByteRange } from '@/lib/storage';
+
+// "bytes=100-", "bytes=100-199" or "bytes=-500"; null for anything else,
+// which is answered with the whole file. 'unsatisfiable' for a range that
+// starts past the end of the file (or an empty suffix), answered with 416.
+function parseRange(header: string | null, size: number): ByteRange | 'unsatisfiable' | null {
+  const match = header?.match(/^bytes=(\d*)-(\d*)$/);
+  if (!match || (!match[1] && !match[2])) return null;
+  if (match[1] && match[2] && Number(match[2]) < Number(match[1])) return null;
+  const start = match[1] ? Number(match[1]) : Math.max(0, size - Number(match[2]));
+  const end = match[1] && match[2] ? Math.min(Number(match[2]), size - 1) : size - 1;
+  return start <= end ? { start, end } : 'unsatisfiable';
+}
+
+// GET /api/audio/[folder]/[file] — a galaxy's music file, with Range support
+// so players can seek and loop without fetching it all again. Only for
+// galaxies the visitor may see.
+export async function GET(
+  req: Request,
+  { params }: { params: Promise<{ folder: string; file: string }> }
+) {
+  const { folder, file } = await params;
+  const safe = safeFolderName(folder);
+  const filename = path.basename(file);
+  const viewer = viewerOf(req);
+  // A galaxy.json too broken to say who may see it hides the galaxy
+  const galaxy = safe ? await getGalaxy(safe).catch(() => null) : null;
+  const allowed = galaxy && canSeeGalaxy(viewer, galaxy);
+  const source = allowed && AUDIO_EXTS.test(filename) ? await storage().stat(`${safe}/${filename}`) : null;
+  if (!galaxy || !source) {
+    return NextResponse.json({ error: 'Audio not found' }, { status: 404 });
+  }
+
+  const range = parseRange(req.headers.get('range'), source.size);
+  if (range === 'unsatisfiable') {
+    return new NextResponse(null, {
+      status: 416,
+      headers: { 'Content-Range': `bytes */${source.size}`, 'Accept-Ranges': 'bytes' },
+    });
+  }
+  try {
+    const stream = await storage().read(source.key, range ?? undefined);
+    return new NextResponse(Readable.toWeb(stream) as ReadableStream, {
+      status: range ? 206 : 200,
+      headers: {
+        'Content-Type': audioContentType(filename),
+        'Content-Length': String(range ? range.end - range.start + 1 : source.size),
+        'Accept-Ranges': 'bytes',
+        ...(range && { 'Content-Range': `bytes ${range.start}-${range.end}/${source.size}` }),
+        'Cache-Control': `${cacheablePublicly(viewer, galaxy) ? 'public' : 'private'}, max-age=86400`,
+      },
+    });
+  } catch (err) {
+    console.error('Failed to read audio:', source.key, err);
+    return NextResponse.json({ error: 'Failed to read audio' }, { status: 500 });
+  }
+}
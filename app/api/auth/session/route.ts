@@ -0,0 +1,31 @@
+import { NextResponse } from 'next/server';
+import { AuthError, clearSessionCookie, requestUser, sessionCookie, signIn } from '@/lib/auth';
+
+// GET /api/auth/session — who's signed in on this browser, or null
+export async function GET(req: Request) {
+  return NextResponse.json(requestUser(req));
+}
+
+// POST /api/auth/session — { "email": "...", "password": "..." }. Signs in
+// for 30 days; 401 when either is wrong.
+export async function POST(req: Request) {
+  try {
+    const body = await req.json().catch(() => null);
+    if (typeof body?.email !== 'string' || typeof body?.password !== 'string') {
+      return NextResponse.json({ error: 'Expected a JSON object with email and password' }, { status: 400 });
+    }
+    const { user, token } = await signIn(body.email, body.password);
+    return NextResponse.json(user, { headers: { 'Set-Cookie': sessionCookie(token) } });
+  } catch (err) {
+    if (err instanceof AuthError) {
+      return NextResponse.json({ error: err.message }, { status: err.status });
+    }
+    console.error('Failed to sign in:', err);
+    return NextResponse.json({ error: 'Failed to sign in' }, { status: 500 });
+  }
+}
+
+// DELETE /api/auth/session — signs out
+export async function DELETE() {
+  return new NextResponse(null, { status: 204, headers: { 'Set-Cookie': clearSessionCookie() } });
+}
@@ -0,0 +1,67 @@
+import { NextResponse } from 'next/server';
+import { AuthError, checkEditToken } from '@/lib/auth';
+import { GalaxyError, checkGalaxyChanges, getGalaxy, updateGalaxy } from '@/lib/galaxies';
+import { deleteGalaxy, renameGalaxy } from '@/lib/moves';
+import { SidecarError } from '@/lib/sidecar';
+
+function errorResponse(err: unknown, action: string) {
+  if (err instanceof AuthError || err instanceof GalaxyError) {
+    return NextResponse.json({ error: err.message }, { status: err.status });
+  }
+  // Invalid values are the caller's mistake here, not a broken file
+  if (err instanceof SidecarError) {
+    return NextResponse.json({ error: err.message, file: err.file, issues: err.issues }, { status: 422 });
+  }
+  console.error(`Failed to ${action} galaxy:`, err);
+  return NextResponse.json({ error: `Failed to ${action} galaxy` }, { status: 500 });
+}
+
+// PATCH /api/galaxies/[id] — JSON body with the galaxy.json fields to change
+// ({ "arms": 4, "color": "#ffaac8" }; null resets a field to its default).
+// `folder` renames the galaxy's folder, and with it its id; that happens
+// first, once the other fields have checked out, so a bad value leaves the
+// galaxy untouched. Needs `Authorization: Bearer <EDIT_TOKEN>`. Returns the updated galaxy.
+export async function PATCH(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    checkEditToken(req);
+    const { id } = await params;
+    const changes = await req.json().catch(() => null);
+    if (typeof changes !== 'object' || changes === null || Array.isArray(changes)) {
+      return NextResponse.json({ error: 'Expected a JSON object of fields to change' }, { status: 400 });
+    }
+    const { folder, ...fields } = changes;
+    if (folder !== undefined && typeof folder !== 'string') {
+      return NextResponse.json({ error: 'folder must be a string' }, { status: 400 });
+    }
+    let galaxy = await getGalaxy(id);
+    if (!galaxy) return NextResponse.json({ error: `No galaxy "${id}"` }, { status: 404 });
+    if (Object.keys(fields).length) checkGalaxyChanges(fields);
+    if (folder !== undefined && folder !== galaxy.folder) galaxy = await renameGalaxy(galaxy.folder, folder);
+    if (Object.keys(fields).length) galaxy = await updateGalaxy(galaxy.folder, fields);
+    if (!galaxy) return NextResponse.json({ error: `No galaxy "${id}"` }, { status: 404 });
+    return NextResponse.json(galaxy);
+  } catch (err) {
+    return errorResponse(err, 'update');
+  }
+}
+
+// DELETE /api/galaxies/[id]?into=<id> — deletes the galaxy, its photos
+// included, or with `into` moves the photos to that galaxy first. Needs
+// `Authorization: Bearer <EDIT_TOKEN>`. Returns { id, into, moved }.
+export async function DELETE(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    checkEditToken(req);
+    const { id } = await params;
+    const into = new URL(req.url).searchParams.get('into') ?? undefined;
+    const moved = await deleteGalaxy(id, into);
+    return NextResponse.json({ id, into: into ?? null, moved });
+  } catch (err) {
+    return errorResponse(err, 'delete');
+  }
+}
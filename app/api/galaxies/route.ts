@@ -0,0 +1,40 @@
+import { NextResponse } from 'next/server';
+import { canSeeGalaxy, viewerOf } from '@/lib/access';
+import { AuthError, checkEditToken } from '@/lib/auth';
+import { GalaxyError, createGalaxy, listGalaxies } from '@/lib/galaxies';
+import { SidecarError } from '@/lib/sidecar';
+
+// GET /api/galaxies — the galaxies the visitor may see: by visibility and
+// sign-in, or what a share link shares
+export async function GET(req: Request) {
+  try {
+    const viewer = viewerOf(req);
+    return NextResponse.json((await listGalaxies()).filter(g => canSeeGalaxy(viewer, g)));
+  } catch (err) {
+    console.error('Failed to list galaxies:', err);
+    return NextResponse.json({ error: 'Failed to list galaxies' }, { status: 500 });
+  }
+}
+
+// POST /api/galaxies — JSON body with the new galaxy's galaxy.json fields
+// ({ "name": "Street Food", "color": "#ff8844" }) and optionally its
+// `folder`. Needs `Authorization: Bearer <EDIT_TOKEN>`. 201 with the galaxy.
+export async function POST(req: Request) {
+  try {
+    checkEditToken(req);
+    const fields = await req.json().catch(() => null);
+    if (typeof fields !== 'object' || fields === null || Array.isArray(fields)) {
+      return NextResponse.json({ error: 'Expected a JSON object with at least a name' }, { status: 400 });
+    }
+    return NextResponse.json(await createGalaxy(fields), { status: 201 });
+  } catch (err) {
+    if (err instanceof AuthError || err instanceof GalaxyError) {
+      return NextResponse.json({ error: err.message }, { status: err.status });
+    }
+    if (err instanceof SidecarError) {
+      return NextResponse.json({ error: err.message, file: err.file, issues: err.issues }, { status: 422 });
+    }
+    console.error('Failed to create galaxy:', err);
+    return NextResponse.json({ error: 'Failed to create galaxy' }, { status: 500 });
+  }
+}
@@ -0,0 +1,16 @@
+import { NextResponse } from 'next/server';
+import { viewerOf } from '@/lib/access';
+import { listGeoPhotos } from '@/lib/geo';
+import { SidecarError } from '@/lib/sidecar';
+
+export async function GET(req: Request) {
+  try {
+    return NextResponse.json(await listGeoPhotos(viewerOf(req)));
+  } catch (err) {
+    if (err instanceof SidecarError) {
+      return NextResponse.json({ error: err.message, file: err.file, issues: err.issues }, { status: 422 });
+    }
+    console.error('Failed to list photo locations:', err);
+    return NextResponse.json({ error: 'Failed to list photo locations' }, { status: 500 });
+  }
+}
@@ -0,0 +1,65 @@
+import { NextResponse } from 'next/server';
+import { cacheablePublicly, canSeePhoto, viewerOf } from '@/lib/access';
+import { getGalaxy } from '@/lib/galaxies';
+import path from 'path';
+import { Readable } from 'stream';
+import { IMAGE_EXTS, safeFolderName } from '@/lib/photos';
+import { THUMB_WIDTH, getDerivative, originalContentType, pickFormat, snapWidth } from '@/lib/images';
+import { storage } from '@/lib/storage';
+
+// GET /api/image/[folder]/[file]?w=<px> — resized WebP/AVIF, cached on disk.
+// Without ?w= the original comes back as stored; HEIC/HEIF/TIFF, which
+// browsers can't show, come back full-size as WebP/AVIF instead. Photos the
+// visitor may not see are not found.
+export async function GET(
+  req: Request,
+  { params }: { params: Promise<{ folder: string; file: string }> }
+) {
+  const { folder, file } = await params;
+  const safe = safeFolderName(folder);
+  const filename = path.basename(file);
+  const viewer = viewerOf(req);
+  // A galaxy.json too broken to say who may see it hides the galaxy
+  const galaxy = safe ? await getGalaxy(safe).catch(() => null) : null;
+  const allowed = galaxy && canSeePhoto(viewer, galaxy, filename);
+  const source = allowed && IMAGE_EXTS.test(filename) ? await storage().stat(`${safe}/${filename}`) : null;
+  if (!galaxy || !source) {
+    return NextResponse.json({ error: 'Image not found' }, { status: 404 });
+  }
+
+  const w = new URL(req.url).searchParams.get('w');
+  const original = originalContentType(filename);
+  if (w === null && original) {
+    try {
+      const stream = await storage().read(source.key);
+      return new NextResponse(Readable.toWeb(stream) as ReadableStream, {
+        headers: {
+          'Content-Type': original,
+          'Content-Length': String(source.size),
+          'Cache-Control': `${cacheablePublicly(viewer, galaxy) ? 'public' : 'private'}, max-age=86400`,
+        },
+      });
+    } catch (err) {
+      console.error('Failed to read image:', source.key, err);
+      return NextResponse.json({ error: 'Failed to read image' }, { status: 500 });
+    }
+  }
+
+  const requested = Number(w);
+  const width = w === null ? null : snapWidth(Number.isFinite(requested) && requested > 0 ? requested : THUMB_WIDTH);
+  const format = pickFormat(req.headers.get('accept'));
+
+  try {
+    const buffer = await getDerivative(source, width, format);
+    return new NextResponse(new Uint8Array(buffer), {
+      headers: {
+        'Content-Type': `image/${format}`,
+        'Cache-Control': `${cacheablePublicly(viewer, galaxy) ? 'public' : 'private'}, max-age=86400`,
+        'Vary': 'Accept',
+      },
+    });
+  } catch (err) {
+    console.error('Failed to resize image:', source.key, err);
+    return NextResponse.json({ error: 'Failed to resize image' }, { status: 500 });
+  }
+}
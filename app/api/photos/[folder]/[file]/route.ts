@@ -0,0 +1,36 @@
+import { NextResponse } from 'next/server';
+import path from 'path';
+import { AuthError, checkEditToken } from '@/lib/auth';
+import { GalaxyError } from '@/lib/galaxies';
+import { movePhoto } from '@/lib/moves';
+import { getPhoto } from '@/lib/photos';
+import { SidecarError } from '@/lib/sidecar';
+
+// PATCH /api/photos/[folder]/[file] — { "galaxy": "<id>" } moves the photo,
+// with its metadata, into another galaxy. Needs `Authorization: Bearer
+// <EDIT_TOKEN>`. Returns { photo } as it is in the new galaxy; its filename
+// gets a "-2" suffix there if the name was taken.
+export async function PATCH(
+  req: Request,
+  { params }: { params: Promise<{ folder: string; file: string }> }
+) {
+  try {
+    checkEditToken(req);
+    const { folder, file } = await params;
+    const body = await req.json().catch(() => null);
+    if (typeof body?.galaxy !== 'string') {
+      return NextResponse.json({ error: 'Expected { "galaxy": "<id>" } to move the photo to' }, { status: 400 });
+    }
+    const filename = await movePhoto(folder, path.basename(file), body.galaxy);
+    return NextResponse.json({ photo: await getPhoto(body.galaxy, filename) });
+  } catch (err) {
+    if (err instanceof AuthError || err instanceof GalaxyError) {
+      return NextResponse.json({ error: err.message }, { status: err.status });
+    }
+    if (err instanceof SidecarError) {
+      return NextResponse.json({ error: err.message, file: err.file, issues: err.issues }, { status: 422 });
+    }
+    console.error('Failed to move photo:', err);
+    return NextResponse.json({ error: 'Failed to move photo' }, { status: 500 });
+  }
+}
@@ -1,30 +1,75 @@
 import { NextResponse } from 'next/server';
-import fs from 'fs';
-import path from 'path';
-
-const IMAGE_EXTS = /\.(jpg|jpeg|png|gif|webp|heic|heif|avif|tiff|tif)$/i;
+import { canSeeGalaxy, canSeePhoto, viewerOf } from '@/lib/access';
+import { AuthError, checkEditToken } from '@/lib/auth';
+import { getGalaxy } from '@/lib/galaxies';
+import { DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE, getPhoto, listPhotos } from '@/lib/photos';
+import { SidecarError } from '@/lib/sidecar';
+import { MAX_UPLOAD_BYTES, UploadError, saveUpload } from '@/lib/upload';
 
+// GET /api/photos/[folder]?cursor=<filename>&limit=<n>. 404 for a galaxy the
+// visitor may not see. A galaxy shared photo by photo comes back in one page
+// of just those.
 export async function GET(
-  _req: Request,
+  req: Request,
   { params }: { params: Promise<{ folder: string }> }
 ) {
   try {
     const { folder } = await params;
-    // Sanitize: no path traversal
-    const safe = folder.replace(/[^a-zA-Z0-9_\-]/g, '');
-    const dir = path.join(process.cwd(), 'public', 'memories', safe);
-
-    if (!fs.existsSync(dir)) {
-      return NextResponse.json([]);
+    const viewer = viewerOf(req);
+    const galaxy = await getGalaxy(folder);
+    if (!galaxy || !canSeeGalaxy(viewer, galaxy)) {
+      return NextResponse.json({ error: 'Galaxy not found' }, { status: 404 });
+    }
+    if (viewer.share && !viewer.share.galaxies.includes(galaxy.folder)) {
+      const photos = (await listPhotos(folder)).photos.filter(p => canSeePhoto(viewer, galaxy, p.filename));
+      return NextResponse.json({ photos, nextCursor: null, total: photos.length });
+    }
+    const { searchParams } = new URL(req.url);
+    const requested = Number(searchParams.get('limit') ?? DEFAULT_PAGE_SIZE);
+    const limit = Number.isFinite(requested)
+      ? Math.min(MAX_PAGE_SIZE, Math.max(1, Math.floor(requested)))
+      : DEFAULT_PAGE_SIZE;
+    const page = await listPhotos(folder, { cursor: searchParams.get('cursor'), limit });
+    return NextResponse.json(page);
+  } catch (err) {
+    // A typo in memories.json should be visible, not look like an empty folder
+    if (err instanceof SidecarError) {
+      return NextResponse.json({ error: err.message, file: err.file, issues: err.issues }, { status: 422 });
     }
+    console.error('Failed to list photos:', err);
+    return NextResponse.json({ error: 'Failed to list photos' }, { status: 500 });
+  }
+}
 
-    const files = fs
-      .readdirSync(dir)
-      .filter(f => IMAGE_EXTS.test(f))
-      .sort(); // consistent ordering
+// POST /api/photos/[folder] — multipart form with one image in `file`, sent
+// with `Authorization: Bearer <EDIT_TOKEN>`. 201 with the new photo, or 200
+// with the existing one when the same content is already in the galaxy.
+export async function POST(
+  req: Request,
+  { params }: { params: Promise<{ folder: string }> }
+) {
+  try {
+    checkEditToken(req);
+    const { folder } = await params;
+    // Turn away oversized bodies before buffering them (multipart framing aside)
+    if (Number(req.headers.get('content-length')) > MAX_UPLOAD_BYTES + 64 * 1024) {
+      throw new UploadError(413, `Uploads are limited to ${Math.round(MAX_UPLOAD_BYTES / 1024 / 1024)} MB`);
+    }
+    const form = await req.formData().catch(() => null);
+    const file = form?.get('file');
+    if (!(file instanceof File)) throw new UploadError(400, 'Expected a multipart form with a "file" field');
 
-    return NextResponse.json(files);
-  } catch {
-    return NextResponse.json([]);
+    const { filename, duplicate } = await saveUpload(folder, file);
+    const photo = await getPhoto(folder, filename);
+    return NextResponse.json({ photo, duplicate }, { status: duplicate ? 200 : 201 });
+  } catch (err) {
+    if (err instanceof AuthError || err instanceof UploadError) {
+      return NextResponse.json({ error: err.message }, { status: err.status });
+    }
+    if (err instanceof SidecarError) {
+      return NextResponse.json({ error: err.message, file: err.file, issues: err.issues }, { status: 422 });
+    }
+    console.error('Failed to upload photo:', err);
+    return NextResponse.json({ error: 'Failed to upload photo' }, { status: 500 });
   }
 }
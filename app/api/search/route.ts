@@ -0,0 +1,18 @@
+import { NextResponse } from 'next/server';
+import { viewerOf } from '@/lib/access';
+import { searchMemories } from '@/lib/search';
+import { SidecarError } from '@/lib/sidecar';
+
+// GET /api/search?q=<terms> — titles, descriptions, tags, people, dates, filenames
+export async function GET(req: Request) {
+  try {
+    const q = new URL(req.url).searchParams.get('q') ?? '';
+    return NextResponse.json(await searchMemories(q, viewerOf(req)));
+  } catch (err) {
+    if (err instanceof SidecarError) {
+      return NextResponse.json({ error: err.message, file: err.file, issues: err.issues }, { status: 422 });
+    }
+    console.error('Search failed:', err);
+    return NextResponse.json({ error: 'Search failed' }, { status: 500 });
+  }
+}
@@ -0,0 +1,25 @@
+import { NextResponse } from 'next/server';
+import { AuthError, checkEditToken } from '@/lib/auth';
+import { ShareError, createShare, summarizeShare } from '@/lib/shares';
+
+// POST /api/shares — JSON body naming what to share, e.g.
+// { "galaxies": ["travel"], "photos": ["family/beach.jpg"], "label": "For Mum",
+//   "expiresInHours": 72, "passphrase": "seaside" }. Needs
+// `Authorization: Bearer <EDIT_TOKEN>`. 201 with the link to hand out.
+export async function POST(req: Request) {
+  try {
+    checkEditToken(req);
+    const fields = await req.json().catch(() => null);
+    if (typeof fields !== 'object' || fields === null || Array.isArray(fields)) {
+      return NextResponse.json({ error: 'Expected a JSON object with galaxies and/or photos' }, { status: 400 });
+    }
+    const { token, share } = await createShare(fields);
+    return NextResponse.json({ token, url: `/?share=${token}`, share: summarizeShare(share) }, { status: 201 });
+  } catch (err) {
+    if (err instanceof AuthError || err instanceof ShareError) {
+      return NextResponse.json({ error: err.message }, { status: err.status });
+    }
+    console.error('Failed to create share:', err);
+    return NextResponse.json({ error: 'Failed to create share' }, { status: 500 });
+  }
+}
@@ -0,0 +1,33 @@
+import { NextResponse } from 'next/server';
+import { ShareError, clearShareCookie, requestShare, shareCookie, summarizeShare, unlockShare } from '@/lib/shares';
+
+// GET /api/shares/session — the share this browser is viewing, or null
+export async function GET(req: Request) {
+  const share = requestShare(req);
+  return NextResponse.json(share && summarizeShare(share));
+}
+
+// POST /api/shares/session — { "token": "...", "passphrase"?: "..." } from a
+// share link. Sets the cookie that scopes every read to the share; 401 when
+// the passphrase is missing or wrong, 410 once the link has expired.
+export async function POST(req: Request) {
+  try {
+    const body = await req.json().catch(() => null);
+    if (typeof body?.token !== 'string') {
+      return NextResponse.json({ error: 'Expected a JSON object with the share token' }, { status: 400 });
+    }
+    const { share, cookie } = unlockShare(body.token, typeof body.passphrase === 'string' ? body.passphrase : '');
+    return NextResponse.json(summarizeShare(share), { headers: { 'Set-Cookie': shareCookie(cookie, share) } });
+  } catch (err) {
+    if (err instanceof ShareError) {
+      return NextResponse.json({ error: err.message }, { status: err.status });
+    }
+    console.error('Failed to open share:', err);
+    return NextResponse.json({ error: 'Failed to open share' }, { status: 500 });
+  }
+}
+
+// DELETE /api/shares/session — leaves the share
+export async function DELETE() {
+  return new NextResponse(null, { status: 204, headers: { 'Set-Cookie': clearShareCookie() } });
+}
@@ -0,0 +1,16 @@
+import { NextResponse } from 'next/server';
+import { viewerOf } from '@/lib/access';
+import { SidecarError } from '@/lib/sidecar';
+import { listTimeline } from '@/lib/timeline';
+
+export async function GET(req: Request) {
+  try {
+    return NextResponse.json(await listTimeline(viewerOf(req)));
+  } catch (err) {
+    if (err instanceof SidecarError) {
+      return NextResponse.json({ error: err.message, file: err.file, issues: err.issues }, { status: 422 });
+    }
+    console.error('Failed to build timeline:', err);
+    return NextResponse.json({ error: 'Failed to build timeline' }, { status: 500 });
+  }
+}
@@ -0,0 +1,102 @@
+"use client";
+
+import { useEffect, useRef } from "react";
+import { photoAltText } from "@/lib/format";
+import type { GalaxyConfig, PhotoMetadata } from "@/lib/types";
+
+type GalleryLevel = 'universe' | 'cluster' | 'photo' | 'timeline' | 'geo';
+
+export interface FocusTarget {
+  type: 'galaxy' | 'photo';
+  id: string;
+}
+
+type ListedGalaxy = GalaxyConfig & { photos: PhotoMetadata[]; photoTotal: number };
+
+function announcement(level: GalleryLevel, galaxies: ListedGalaxy[], galaxy: ListedGalaxy | null, photoId: string | null): string {
+  if (level === 'universe') return `Universe: ${galaxies.length} ${galaxies.length === 1 ? 'galaxy' : 'galaxies'}. Tab to a galaxy and press Enter to go in.`;
+  if (level === 'timeline') return 'Timeline: every dated photo in capture order. Left and right arrows step through time; Escape goes back.';
+  if (level === 'geo') return 'Globe: photos pinned where they were taken. Escape goes back.';
+  if (!galaxy) return '';
+  const index = galaxy.photos.findIndex(p => p.id === photoId);
+  if (level === 'photo' && index !== -1) {
+    return `Photo ${index + 1} of ${galaxy.photoTotal}: ${photoAltText(galaxy.photos[index])}. Left and right arrows for the others; Escape goes back.`;
+  }
+  return `${galaxy.name}: ${galaxy.photoTotal} ${galaxy.photoTotal === 1 ? 'photo' : 'photos'}. Tab to a photo and press Enter to open it; Escape goes back.`;
+}
+
+// The gallery for keyboards and screen readers: a visually hidden list of
+// the galaxies, or of the open galaxy's photos, alongside the WebGL scene.
+// Focusing an item rings it in 3D (`onFocusChange`), Enter opens it, and
+// every change of view is read out from a live region.
+export default function AccessibleGallery({
+  level,
+  galaxies,
+  activeGalaxy,
+  activePhotoId,
+  onOpenGalaxy,
+  onOpenPhoto,
+  onFocusChange,
+}: {
+  level: GalleryLevel;
+  galaxies: ListedGalaxy[];
+  activeGalaxy: ListedGalaxy | null;
+  activePhotoId: string | null;
+  onOpenGalaxy: (id: string) => void;
+  onOpenPhoto: (id: string) => void;
+  onFocusChange: (target: FocusTarget | null) => void;
+}) {
+  const listRef = useRef<HTMLUListElement>(null);
+  // Set once the keyboard is in here, so a mouse user's focus is never moved
+  const navigating = useRef(false);
+
+  // The focused item goes away with the view it was in, without a blur
+  // event: drop its ring, and carry on from the new view's list instead of
+  // the top of the page
+  const listKey = level === 'universe' ? 'universe' : activeGalaxy?.id ?? null;
+  useEffect(() => {
+    onFocusChange(null);
+    if (navigating.current && listKey && document.activeElement === document.body) listRef.current?.focus();
+  }, [listKey, onFocusChange]);
+
+  const item = (target: FocusTarget) => ({
+    onFocus: () => { navigating.current = true; onFocusChange(target); },
+    onBlur: () => onFocusChange(null),
+  });
+
+  const inGalaxy = (level === 'cluster' || level === 'photo') && activeGalaxy;
+
+  return (
+    <div className="sr-only">
+      <p role="status" aria-live="polite">{announcement(level, galaxies, activeGalaxy, activePhotoId)}</p>
+
+      {level === 'universe' && (
+        <ul ref={listRef} tabIndex={-1} aria-label="Galaxies">
+          {galaxies.map(galaxy => (
+            <li key={galaxy.id}>
+              <button onClick={() => onOpenGalaxy(galaxy.id)} {...item({ type: 'galaxy', id: galaxy.id })}>
+                {galaxy.name}, {galaxy.photoTotal} {galaxy.photoTotal === 1 ? 'photo' : 'photos'}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {inGalaxy && (
+        <ul ref={listRef} tabIndex={-1} aria-label={`Photos in ${activeGalaxy.name}`}>
+          {activeGalaxy.photos.map(photo => (
+            <li key={photo.id}>
+              <button
+                onClick={() => onOpenPhoto(photo.id)}
+                aria-current={photo.id === activePhotoId ? 'true' : undefined}
+                {...item({ type: 'photo', id: photo.id })}
+              >
+                {photoAltText(photo)}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
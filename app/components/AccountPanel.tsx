@@ -0,0 +1,90 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import type { SessionUser } from "@/lib/auth";
+
+const field = "w-full bg-white/5 border border-white/10 rounded-lg px-2 py-1.5 text-sm";
+
+// Sign in and out, top right. Which galaxies come back from the server
+// depends on who's signed in, so either way the page reloads.
+export default function AccountPanel() {
+  const [user, setUser] = useState<SessionUser | null>(null);
+  const [open, setOpen] = useState(false);
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetch('/api/auth/session')
+      .then(res => (res.ok ? res.json() : null))
+      .then(setUser)
+      .catch(err => console.error('Session check failed:', err));
+  }, []);
+
+  const signIn = async () => {
+    setBusy(true);
+    setError(null);
+    try {
+      const res = await fetch('/api/auth/session', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ email, password }),
+      });
+      if (!res.ok) throw new Error((await res.json().catch(() => ({}))).error ?? `Sign-in failed (${res.status})`);
+      window.location.reload();
+    } catch (err) {
+      setError((err as Error).message);
+      setBusy(false);
+    }
+  };
+
+  const signOut = () => {
+    fetch('/api/auth/session', { method: 'DELETE' }).then(() => window.location.reload());
+  };
+
+  return (
+    <div style={{ position: 'fixed', top: 28, right: 220, zIndex: 100 }}>
+      <button
+        onClick={() => setOpen(o => !o)}
+        className="w-10 h-10 flex items-center justify-center rounded-full bg-black/40 backdrop-blur-xl border border-white/10 hover:border-white/30 text-white transition-all shadow-xl"
+        title={user ? `Signed in as ${user.name}` : 'Sign in'}
+        aria-expanded={open}
+      >
+        <span style={{ fontSize: 15 }}>{user ? '🔓' : '👤'}</span>
+      </button>
+      {open && (
+        <div className="absolute right-0 mt-2 w-64 bg-black/70 backdrop-blur-2xl border border-white/10 rounded-2xl shadow-2xl text-white text-xs p-4 space-y-3">
+          {user ? (
+            <>
+              <p className="text-white/70">
+                Signed in as <span className="text-white">{user.name}</span>
+                <span className="block text-white/40 mt-0.5">{user.role === 'owner' ? 'Owner — sees every galaxy' : 'Family — sees family galaxies'}</span>
+              </p>
+              <button
+                onClick={signOut}
+                className="w-full py-2 rounded-full bg-white/10 hover:bg-white/20 text-white text-sm border border-white/10 transition-all"
+              >
+                Sign out
+              </button>
+            </>
+          ) : (
+            <form onSubmit={(e) => { e.preventDefault(); signIn(); }} className="space-y-2">
+              <span className="text-white/50 uppercase tracking-widest text-[10px]">Sign in for private galaxies</span>
+              <input type="email" autoComplete="username" value={email} onChange={(e) => setEmail(e.target.value)} placeholder="Email" className={field} />
+              <input type="password" autoComplete="current-password" value={password} onChange={(e) => setPassword(e.target.value)} placeholder="Password" className={field} />
+              {error && <p className="text-red-300/80">{error}</p>}
+              <button
+                type="submit"
+                disabled={busy || !email || !password}
+                className="w-full py-2 rounded-full bg-white/15 hover:bg-white/25 text-white text-sm border border-white/20 transition-all disabled:opacity-30"
+              >
+                {busy ? 'Signing in…' : 'Sign in'}
+              </button>
+            </form>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,218 @@
+"use client";
+
+import { useRef, useState } from "react";
+import { FlightPathError, flightDuration, parseFlightPath, type FlightKeyframe, type FlightPath, type FlightView } from "@/lib/flight-path";
+import { FLIGHT_FPS, downloadBlob, type FlightExportFormat } from "@/lib/flight-export";
+
+export type FlightPlayback = { mode: 'preview' } | { mode: 'export'; done: number; total: number };
+
+// Seconds a new keyframe comes after the one before it
+const DEFAULT_GAP = 3;
+
+function viewLabel({ galaxy, photo, view }: FlightView): string {
+  if (view === 'timeline') return 'Timeline';
+  if (view === 'geo') return 'Globe';
+  if (!galaxy) return 'Universe';
+  return photo ? `${galaxy} › ${photo}` : galaxy;
+}
+
+// Authoring camera flights: each keyframe is the camera as it is now, in
+// the view that's open. The page plays a flight back as a preview or renders
+// it frame by frame into a PNG sequence or a WebM.
+export default function FlightRecorder({
+  open,
+  path,
+  playback,
+  onChange,
+  onCapture,
+  onJump,
+  onPreview,
+  onExport,
+  onStop,
+  onClose,
+}: {
+  open: boolean;
+  path: FlightPath;
+  playback: FlightPlayback | null;
+  onChange: (path: FlightPath) => void;
+  onCapture: () => Omit<FlightKeyframe, 'time'> | null;
+  onJump: (keyframe: FlightKeyframe) => void;
+  onPreview: () => void;
+  onExport: (format: FlightExportFormat, fps: number) => Promise<void>;
+  onStop: () => void;
+  onClose: () => void;
+}) {
+  const [format, setFormat] = useState<FlightExportFormat>('webm');
+  const [fps, setFps] = useState(30);
+  const [error, setError] = useState<string | null>(null);
+  const fileInput = useRef<HTMLInputElement>(null);
+  const { keyframes } = path;
+
+  const capture = () => {
+    const pose = onCapture();
+    if (!pose) return;
+    const time = keyframes.length ? flightDuration(path) + DEFAULT_GAP : 0;
+    onChange({ ...path, keyframes: [...keyframes, { ...pose, time }] });
+  };
+
+  // Changing the gap before a keyframe moves it and everything after it
+  const setGap = (index: number, gap: number) => {
+    const shift = gap - (keyframes[index].time - keyframes[index - 1].time);
+    onChange({ ...path, keyframes: keyframes.map((kf, i) => i >= index ? { ...kf, time: kf.time + shift } : kf) });
+  };
+
+  // Removing one closes the gap it leaves; the flight still starts at 0
+  const remove = (index: number) => {
+    const shift = index > 0 ? keyframes[index].time - keyframes[index - 1].time : keyframes[1]?.time ?? 0;
+    onChange({
+      ...path,
+      keyframes: keyframes.filter((_, i) => i !== index).map((kf, i) => i >= index ? { ...kf, time: kf.time - shift } : kf),
+    });
+  };
+
+  const load = async (file: File) => {
+    try {
+      onChange(parseFlightPath(JSON.parse(await file.text())));
+      setError(null);
+    } catch (err) {
+      setError(err instanceof FlightPathError ? err.message : `${file.name} isn't JSON: ${(err as Error).message}`);
+    }
+  };
+
+  const exportFlight = () => {
+    setError(null);
+    onExport(format, fps).catch(err => {
+      if ((err as Error).name !== 'AbortError') setError((err as Error).message);
+    });
+  };
+
+  if (!open) return null;
+  const busy = playback !== null;
+
+  return (
+    <div style={{ position: 'fixed', top: 84, right: 28, width: 320, maxHeight: 'calc(100vh - 112px)', zIndex: 150 }}>
+      <div className="max-h-full flex flex-col bg-black/70 backdrop-blur-2xl border border-white/10 rounded-2xl shadow-2xl text-white overflow-hidden">
+        <div className="flex items-center justify-between px-5 pt-4 pb-3 border-b border-white/10">
+          <span className="text-sm font-medium tracking-wide">Flight</span>
+          <span className="flex items-center gap-3">
+            <span className="text-white/40 text-xs" style={{ fontFamily: 'monospace' }}>{flightDuration(path).toFixed(1)}s</span>
+            <button onClick={onClose} className="text-white/40 hover:text-white text-sm" title="Close">✕</button>
+          </span>
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-5 py-3 space-y-2 text-xs">
+          {keyframes.length === 0 && (
+            <p className="text-white/50">Move the camera where the flight should start, then add a keyframe. Keep moving and adding — open galaxies and photos on the way.</p>
+          )}
+          {keyframes.map((kf, i) => (
+            <div key={i} className="flex items-center gap-2">
+              <span className="w-6 text-white/40" style={{ fontFamily: 'monospace' }}>{i + 1}</span>
+              {i === 0 ? (
+                <span className="w-14 text-white/40" style={{ fontFamily: 'monospace' }}>0s</span>
+              ) : (
+                <label className="w-14 flex items-center gap-0.5" title="Seconds after the keyframe before">
+                  <span className="text-white/40">+</span>
+                  <input
+                    type="number"
+                    min={0}
+                    step={0.5}
+                    value={+(kf.time - keyframes[i - 1].time).toFixed(2)}
+                    onChange={(e) => setGap(i, Math.max(0, Number(e.target.value)))}
+                    disabled={busy}
+                    className="w-10 bg-white/5 border border-white/10 rounded px-1 py-0.5"
+                  />
+                </label>
+              )}
+              <button
+                onClick={() => onJump(kf)}
+                disabled={busy}
+                className="flex-1 truncate text-left text-white/80 hover:text-white disabled:opacity-40"
+                title="Go to this keyframe"
+              >
+                {viewLabel(kf.view)}
+              </button>
+              <button onClick={() => remove(i)} disabled={busy} className="text-white/30 hover:text-white disabled:opacity-20" title="Remove">✕</button>
+            </div>
+          ))}
+        </div>
+
+        <div className="px-5 py-3 border-t border-white/10 space-y-3 text-xs">
+          <div className="flex gap-2">
+            <button
+              onClick={capture}
+              disabled={busy}
+              className="flex-1 py-2 rounded-full bg-white/15 hover:bg-white/25 text-white text-sm border border-white/20 transition-all disabled:opacity-30"
+            >
+              ＋ Keyframe
+            </button>
+            <button
+              onClick={busy ? onStop : onPreview}
+              disabled={!busy && keyframes.length < 2}
+              className="flex-1 py-2 rounded-full bg-white/10 hover:bg-white/20 text-white text-sm border border-white/10 transition-all disabled:opacity-30"
+            >
+              {busy ? '⏹ Stop' : '▶ Preview'}
+            </button>
+          </div>
+
+          <div className="flex items-center gap-2">
+            <select
+              value={format}
+              onChange={(e) => setFormat(e.target.value as FlightExportFormat)}
+              disabled={busy}
+              className="flex-1 bg-white/5 border border-white/10 rounded-lg px-2 py-1.5"
+              aria-label="Export format"
+            >
+              <option value="webm" className="bg-black">WebM video</option>
+              <option value="png" className="bg-black">PNG frames (.zip)</option>
+            </select>
+            <select
+              value={fps}
+              onChange={(e) => setFps(Number(e.target.value))}
+              disabled={busy}
+              className="bg-white/5 border border-white/10 rounded-lg px-2 py-1.5"
+              aria-label="Frames per second"
+            >
+              {FLIGHT_FPS.map(n => <option key={n} value={n} className="bg-black">{n} fps</option>)}
+            </select>
+            <button
+              onClick={exportFlight}
+              disabled={busy || keyframes.length < 2}
+              className="px-3 py-1.5 rounded-full bg-white/10 hover:bg-white/20 border border-white/10 transition-all disabled:opacity-30"
+            >
+              Export
+            </button>
+          </div>
+          {playback?.mode === 'export' && (
+            <p className="text-white/60">Rendering frame {playback.done} of {playback.total}…</p>
+          )}
+          {error && <p className="text-red-300/80">{error}</p>}
+
+          <div className="flex gap-3 text-white/50">
+            <button
+              onClick={() => downloadBlob(new Blob([JSON.stringify(path, null, 2) + '\n'], { type: 'application/json' }), 'flight.json')}
+              disabled={!keyframes.length}
+              className="hover:text-white disabled:opacity-30"
+            >
+              Save JSON
+            </button>
+            <button onClick={() => fileInput.current?.click()} disabled={busy} className="hover:text-white disabled:opacity-30">Load JSON</button>
+            <button
+              onClick={() => { if (window.confirm('Remove every keyframe?')) onChange({ ...path, keyframes: [] }); }}
+              disabled={busy || !keyframes.length}
+              className="ml-auto hover:text-white disabled:opacity-30"
+            >
+              Clear
+            </button>
+            <input
+              ref={fileInput}
+              type="file"
+              accept="application/json,.json"
+              className="hidden"
+              onChange={(e) => { const file = e.target.files?.[0]; if (file) load(file); e.target.value = ''; }}
+            />
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,371 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { editFetch } from "@/lib/edit-fetch";
+import type { GalaxyConfig, Visibility } from "@/lib/types";
+
+// The fields this panel edits; everything else in galaxy.json is left alone
+export type GalaxyStyle = Pick<GalaxyConfig, 'name' | 'color' | 'rotation' | 'arms' | 'thickness' | 'spinSpeed' | 'coreGlow' | 'visibility'>;
+
+const SLIDERS: { key: 'arms' | 'thickness' | 'spinSpeed' | 'coreGlow'; label: string; min: number; max: number; step: number }[] = [
+  { key: 'arms', label: 'Arms', min: 1, max: 8, step: 1 },
+  { key: 'thickness', label: 'Thickness', min: 0.1, max: 2, step: 0.05 },
+  { key: 'spinSpeed', label: 'Spin speed', min: 0.1, max: 3, step: 0.05 },
+  { key: 'coreGlow', label: 'Core glow', min: 0.5, max: 3, step: 0.05 },
+];
+
+const AXES = ['Tilt X', 'Tilt Y', 'Tilt Z'];
+
+const VISIBILITIES: { value: Visibility; label: string }[] = [
+  { value: 'public', label: 'Everyone' },
+  { value: 'family', label: 'Signed-in family' },
+  { value: 'private', label: 'Only the owner' },
+];
+
+const FOLDER_PATTERN = /^[a-zA-Z0-9_-]+$/;
+
+// Admin panel for the galaxies themselves: create, rename (folder and all),
+// delete or merge into another, and restyle. Style changes are previewed
+// live in the universe through `onPreview`; Save writes them to the
+// galaxy's galaxy.json.
+export default function GalaxyEditor({
+  open,
+  galaxies,
+  onClose,
+  onPreview,
+  onSaved,
+  onCreated,
+  onDeleted,
+}: {
+  open: boolean;
+  galaxies: GalaxyConfig[];
+  onClose: () => void;
+  onPreview: (id: string | null, draft: Partial<GalaxyStyle>) => void;
+  onSaved: (galaxy: GalaxyConfig, previousId: string) => void;
+  onCreated: (galaxy: GalaxyConfig) => void;
+  onDeleted: (id: string, into: string | null) => void;
+}) {
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<Partial<GalaxyStyle>>({});
+  const [folder, setFolder] = useState<string | null>(null);
+  const [newName, setNewName] = useState<string | null>(null);
+  const [mergeInto, setMergeInto] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const selected = galaxies.find(g => g.id === selectedId) ?? galaxies[0] ?? null;
+  const values = selected ? { ...selected, ...draft } : null;
+  const renaming = folder !== null && folder !== selected?.folder;
+  const dirty = Object.keys(draft).length > 0 || renaming;
+
+  const select = (id: string) => {
+    setSelectedId(id);
+    setDraft({});
+    setFolder(null);
+    setMergeInto('');
+    setError(null);
+    onPreview(id, {});
+  };
+
+  const change = (patch: Partial<GalaxyStyle>) => {
+    if (!selected) return;
+    const next = { ...draft, ...patch };
+    setDraft(next);
+    onPreview(selected.id, next);
+  };
+
+  const close = () => {
+    setDraft({});
+    setFolder(null);
+    setNewName(null);
+    setError(null);
+    onPreview(null, {});
+    onClose();
+  };
+
+  // Opening previews (and focuses the camera on) the selected galaxy
+  const selectedIdShown = selected?.id ?? null;
+  useEffect(() => {
+    if (open) onPreview(selectedIdShown, {});
+  }, [open, selectedIdShown, onPreview]);
+
+  // Esc closes, dropping unsaved changes
+  useEffect(() => {
+    if (!open) return;
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key !== 'Escape') return;
+      setDraft({});
+      setFolder(null);
+      setNewName(null);
+      setError(null);
+      onPreview(null, {});
+      onClose();
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [open, onClose, onPreview]);
+
+  // Every request the panel makes: one at a time, errors shown inline
+  const run = async (job: () => Promise<void>) => {
+    setSaving(true);
+    setError(null);
+    try {
+      await job();
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // `reset` sends nulls, which drop the fields back to the generated defaults
+  const save = (changes: Record<string, unknown>) => run(async () => {
+    if (!selected) return;
+    const galaxy = await editFetch<GalaxyConfig>(`/api/galaxies/${selected.id}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(changes),
+    });
+    setDraft({});
+    setFolder(null);
+    setSelectedId(galaxy.id);
+    onSaved(galaxy, selected.id);
+    onPreview(galaxy.id, {});
+  });
+
+  const create = () => run(async () => {
+    const galaxy = await editFetch<GalaxyConfig>('/api/galaxies', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ name: newName?.trim() }),
+    });
+    setNewName(null);
+    setDraft({});
+    setFolder(null);
+    setSelectedId(galaxy.id);
+    onCreated(galaxy);
+    onPreview(galaxy.id, {});
+  });
+
+  const remove = () => {
+    if (!selected) return;
+    const target = galaxies.find(g => g.id === mergeInto);
+    const question = target
+      ? `Delete "${selected.name}" and move its photos to "${target.name}"?`
+      : `Delete "${selected.name}" and every photo in it? This can't be undone.`;
+    if (!window.confirm(question)) return;
+    return run(async () => {
+      const query = target ? `?into=${encodeURIComponent(target.id)}` : '';
+      await editFetch(`/api/galaxies/${selected.id}${query}`, { method: 'DELETE' });
+      setDraft({});
+      setFolder(null);
+      setMergeInto('');
+      setSelectedId(null);
+      onPreview(null, {});
+      onDeleted(selected.id, target?.id ?? null);
+    });
+  };
+
+  if (!open) return null;
+  const rotation = values?.rotation ?? [0, 0, 0];
+  const folderValue = folder ?? selected?.folder ?? '';
+
+  return (
+    <div style={{ position: 'fixed', top: 28, right: 28, bottom: 28, width: 300, zIndex: 150 }}>
+      <div className="h-full flex flex-col bg-black/70 backdrop-blur-2xl border border-white/10 rounded-2xl shadow-2xl text-white overflow-hidden">
+        <div className="flex items-center justify-between px-5 pt-4 pb-3 border-b border-white/10">
+          <span className="text-sm font-medium tracking-wide">Galaxies</span>
+          <span className="flex items-center gap-3">
+            <button
+              onClick={() => setNewName(n => n === null ? '' : null)}
+              className="text-white/60 hover:text-white text-xs"
+              title="Create a new, empty galaxy"
+            >
+              ＋ New
+            </button>
+            <button onClick={close} className="text-white/40 hover:text-white text-sm" title="Close (Esc)">✕</button>
+          </span>
+        </div>
+
+        {newName !== null && (
+          <form
+            onSubmit={(e) => { e.preventDefault(); if (newName.trim()) create(); }}
+            className="flex gap-2 px-5 py-3 border-b border-white/10 text-xs"
+          >
+            <input
+              autoFocus
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              placeholder="Name of the new galaxy"
+              className="flex-1 bg-white/5 border border-white/10 rounded-lg px-2 py-1.5 text-sm"
+            />
+            <button
+              type="submit"
+              disabled={!newName.trim() || saving}
+              className="px-3 rounded-full bg-white/15 hover:bg-white/25 text-white text-sm border border-white/20 transition-all disabled:opacity-30"
+            >
+              Create
+            </button>
+          </form>
+        )}
+
+        {!selected || !values ? (
+          <p className="flex-1 px-5 py-4 text-white/50 text-xs">No galaxies yet — create one above.</p>
+        ) : (
+          <>
+            <div className="flex-1 overflow-y-auto px-5 py-4 space-y-4 text-xs">
+              <label className="block">
+                <span className="text-white/50 uppercase tracking-widest text-[10px]">Galaxy</span>
+                <select
+                  value={selected.id}
+                  onChange={(e) => select(e.target.value)}
+                  className="mt-1 w-full bg-white/5 border border-white/10 rounded-lg px-2 py-1.5 text-sm"
+                >
+                  {galaxies.map(g => <option key={g.id} value={g.id} className="bg-black">{g.name}</option>)}
+                </select>
+              </label>
+
+              <label className="block">
+                <span className="text-white/50 uppercase tracking-widest text-[10px]">Name</span>
+                <input
+                  value={values.name}
+                  onChange={(e) => change({ name: e.target.value })}
+                  className="mt-1 w-full bg-white/5 border border-white/10 rounded-lg px-2 py-1.5 text-sm"
+                />
+              </label>
+
+              <label className="block">
+                <span className="text-white/50 uppercase tracking-widest text-[10px]">Folder</span>
+                <input
+                  value={folderValue}
+                  onChange={(e) => setFolder(e.target.value)}
+                  style={{ fontFamily: 'monospace' }}
+                  className="mt-1 w-full bg-white/5 border border-white/10 rounded-lg px-2 py-1.5 text-sm"
+                />
+                {renaming && !FOLDER_PATTERN.test(folderValue) && (
+                  <span className="block mt-1 text-red-300/80">Letters, digits, - and _ only</span>
+                )}
+                {renaming && FOLDER_PATTERN.test(folderValue) && (
+                  <span className="block mt-1 text-white/40">Save moves every file to the new folder; old links to this galaxy stop working</span>
+                )}
+              </label>
+
+              <label className="flex items-center justify-between">
+                <span className="text-white/50 uppercase tracking-widest text-[10px]">Visible to</span>
+                <select
+                  value={values.visibility}
+                  onChange={(e) => change({ visibility: e.target.value as Visibility })}
+                  className="bg-white/5 border border-white/10 rounded-lg px-2 py-1.5 text-sm"
+                >
+                  {VISIBILITIES.map(({ value, label }) => <option key={value} value={value} className="bg-black">{label}</option>)}
+                </select>
+              </label>
+
+              <label className="flex items-center justify-between">
+                <span className="text-white/50 uppercase tracking-widest text-[10px]">Color</span>
+                <span className="flex items-center gap-2">
+                  <span style={{ fontFamily: 'monospace' }} className="text-white/60">{values.color}</span>
+                  <input
+                    type="color"
+                    value={values.color}
+                    onChange={(e) => change({ color: e.target.value })}
+                    className="w-8 h-8 bg-transparent border-0 cursor-pointer"
+                  />
+                </span>
+              </label>
+
+              {SLIDERS.map(({ key, label, min, max, step }) => (
+                <label key={key} className="block">
+                  <span className="flex justify-between">
+                    <span className="text-white/50 uppercase tracking-widest text-[10px]">{label}</span>
+                    <span style={{ fontFamily: 'monospace' }} className="text-white/60">{values[key]}</span>
+                  </span>
+                  <input
+                    type="range"
+                    min={min}
+                    max={max}
+                    step={step}
+                    value={values[key]}
+                    onChange={(e) => change({ [key]: Number(e.target.value) })}
+                    className="w-full accent-white"
+                  />
+                </label>
+              ))}
+
+              {AXES.map((label, axis) => (
+                <label key={label} className="block">
+                  <span className="flex justify-between">
+                    <span className="text-white/50 uppercase tracking-widest text-[10px]">{label}</span>
+                    <span style={{ fontFamily: 'monospace' }} className="text-white/60">{rotation[axis].toFixed(2)}</span>
+                  </span>
+                  <input
+                    type="range"
+                    min={-1.6}
+                    max={1.6}
+                    step={0.05}
+                    value={rotation[axis]}
+                    onChange={(e) => {
+                      const next: [number, number, number] = [...rotation];
+                      next[axis] = Number(e.target.value);
+                      change({ rotation: next });
+                    }}
+                    className="w-full accent-white"
+                  />
+                </label>
+              ))}
+
+              <div className="pt-4 border-t border-white/10 space-y-2">
+                <span className="text-white/50 uppercase tracking-widest text-[10px]">Delete galaxy</span>
+                <select
+                  value={mergeInto}
+                  onChange={(e) => setMergeInto(e.target.value)}
+                  className="w-full bg-white/5 border border-white/10 rounded-lg px-2 py-1.5 text-sm"
+                >
+                  <option value="" className="bg-black">…and its photos</option>
+                  {galaxies.filter(g => g.id !== selected.id).map(g => (
+                    <option key={g.id} value={g.id} className="bg-black">…moving its photos to {g.name}</option>
+                  ))}
+                </select>
+                <button
+                  disabled={saving}
+                  onClick={remove}
+                  className="w-full py-2 rounded-full bg-red-500/10 hover:bg-red-500/25 text-red-200 text-sm border border-red-400/30 transition-all disabled:opacity-30"
+                >
+                  {mergeInto ? 'Merge and delete' : 'Delete'}
+                </button>
+              </div>
+
+              {error && <p className="text-red-300/80">{error}</p>}
+            </div>
+
+            <div className="flex gap-2 px-5 py-4 border-t border-white/10">
+              <button
+                disabled={!dirty || saving || (renaming && !FOLDER_PATTERN.test(folderValue))}
+                onClick={() => save(renaming ? { ...draft, folder: folderValue } : draft)}
+                className="flex-1 py-2 rounded-full bg-white/15 hover:bg-white/25 text-white text-sm border border-white/20 transition-all disabled:opacity-30 disabled:cursor-not-allowed"
+              >
+                {saving ? 'Saving…' : 'Save'}
+              </button>
+              <button
+                disabled={!dirty || saving}
+                onClick={() => { setDraft({}); setFolder(null); onPreview(selected.id, {}); }}
+                className="px-4 py-2 rounded-full bg-white/5 hover:bg-white/15 text-white/70 text-sm border border-white/10 transition-all disabled:opacity-30 disabled:cursor-not-allowed"
+              >
+                Revert
+              </button>
+              <button
+                disabled={saving}
+                onClick={() => save({ color: null, rotation: null, arms: null, thickness: null, spinSpeed: null, coreGlow: null })}
+                className="px-4 py-2 rounded-full bg-white/5 hover:bg-white/15 text-white/70 text-sm border border-white/10 transition-all disabled:opacity-30"
+                title="Back to the look generated from the folder name"
+              >
+                Reset
+              </button>
+            </div>
+          </>
+        )}
+        {(!selected || !values) && error && <p className="px-5 pb-4 text-red-300/80 text-xs">{error}</p>}
+      </div>
+    </div>
+  );
+}
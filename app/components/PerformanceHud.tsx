@@ -0,0 +1,30 @@
+"use client";
+
+import type { FrameStats } from "@/lib/quality";
+
+const row = "flex justify-between gap-4";
+
+// Debug overlay, bottom left: frame rate, draw calls and the quality tier
+// in use. Turned on from the settings panel.
+export default function PerformanceHud({
+  stats,
+  tier,
+  auto,
+}: {
+  stats: FrameStats | null;
+  tier: string;
+  auto: boolean;
+}) {
+  return (
+    <div
+      style={{ position: 'fixed', bottom: 24, left: 24, zIndex: 100, fontFamily: 'monospace', pointerEvents: 'none' }}
+      className="w-40 px-3 py-2 bg-black/70 backdrop-blur-2xl border border-white/10 rounded-xl text-white/80 text-[11px] space-y-0.5"
+    >
+      <div className={row}><span className="text-white/40">FPS</span>{stats ? Math.round(stats.fps) : '–'}</div>
+      <div className={row}><span className="text-white/40">Frame</span>{stats ? `${stats.frameMs.toFixed(1)} ms` : '–'}</div>
+      <div className={row}><span className="text-white/40">Draw calls</span>{stats?.calls ?? '–'}</div>
+      <div className={row}><span className="text-white/40">Triangles</span>{stats ? stats.triangles.toLocaleString() : '–'}</div>
+      <div className={row}><span className="text-white/40">Tier</span>{tier}{auto ? ' (auto)' : ''}</div>
+    </div>
+  );
+}
@@ -0,0 +1,138 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { editFetch } from "@/lib/edit-fetch";
+import type { PhotoMetadata } from "@/lib/types";
+
+interface MoveTarget {
+  id: string;
+  folder: string;
+  name: string;
+  color: string;
+}
+
+// A card pressed in the open galaxy: where the pointer went down
+export interface CardDrag {
+  photo: PhotoMetadata;
+  galaxyId: string;
+  x: number;
+  y: number;
+}
+
+// Dragging a card out of a galaxy: once the pointer has moved a little, the
+// card follows it and every other galaxy shows up as a drop target along the
+// bottom. Dropping on one moves the photo there on the server; the page hears
+// about it through `onMoved` once it has.
+export default function PhotoMover({
+  drag,
+  galaxies,
+  onEnd,
+  onMoved,
+}: {
+  drag: CardDrag | null;
+  galaxies: MoveTarget[];
+  onEnd: () => void;
+  onMoved: (fromId: string, toId: string, before: PhotoMetadata, after: PhotoMetadata) => void;
+}) {
+  const [pointer, setPointer] = useState<{ x: number; y: number } | null>(null);
+  const [over, setOver] = useState<string | null>(null);
+  const [status, setStatus] = useState<{ text: string; state: 'moving' | 'done' | 'failed' } | null>(null);
+  // Read through a ref: photo pages streaming in mustn't restart a drag
+  const galaxiesRef = useRef(galaxies);
+  useEffect(() => { galaxiesRef.current = galaxies; }, [galaxies]);
+
+  useEffect(() => {
+    if (!drag) return;
+    // The canvas may hold pointer capture, so targets are found by position
+    const targetAt = (x: number, y: number) =>
+      document.elementsFromPoint(x, y).map(el => (el as HTMLElement).dataset.dropGalaxy).find(Boolean) ?? null;
+    let dragging = false;
+
+    const onMove = (e: PointerEvent) => {
+      if (!dragging && Math.hypot(e.clientX - drag.x, e.clientY - drag.y) < 8) return;
+      dragging = true;
+      setPointer({ x: e.clientX, y: e.clientY });
+      setOver(targetAt(e.clientX, e.clientY));
+    };
+    const onUp = async (e: PointerEvent) => {
+      const targetId = dragging ? targetAt(e.clientX, e.clientY) : null;
+      setPointer(null);
+      setOver(null);
+      onEnd();
+      const from = galaxiesRef.current.find(g => g.id === drag.galaxyId);
+      const to = galaxiesRef.current.find(g => g.id === targetId);
+      if (!from || !to) return;
+
+      setStatus({ text: `Moving to ${to.name}…`, state: 'moving' });
+      try {
+        const { photo } = await editFetch<{ photo: PhotoMetadata }>(`/api/photos/${from.folder}/${encodeURIComponent(drag.photo.filename)}`, {
+          method: 'PATCH',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ galaxy: to.folder }),
+        });
+        onMoved(from.id, to.id, drag.photo, photo);
+        setStatus({ text: `Moved to ${to.name}`, state: 'done' });
+      } catch (err) {
+        setStatus({ text: (err as Error).message, state: 'failed' });
+      }
+    };
+
+    window.addEventListener('pointermove', onMove);
+    window.addEventListener('pointerup', onUp);
+    return () => {
+      window.removeEventListener('pointermove', onMove);
+      window.removeEventListener('pointerup', onUp);
+    };
+  }, [drag, onEnd, onMoved]);
+
+  // Success fades on its own; a failure stays until dismissed
+  useEffect(() => {
+    if (status?.state !== 'done') return;
+    const timer = setTimeout(() => setStatus(null), 3000);
+    return () => clearTimeout(timer);
+  }, [status]);
+
+  const targets = galaxies.filter(g => g.id !== drag?.galaxyId);
+
+  return (
+    <>
+      {drag && pointer && (
+        <>
+          {/* eslint-disable-next-line @next/next/no-img-element -- thumbnails already come resized from /api/image */}
+          <img
+            src={drag.photo.thumbUrl}
+            alt={drag.photo.title}
+            style={{ position: 'fixed', left: pointer.x, top: pointer.y, width: 120, transform: 'translate(-50%, -50%) rotate(-4deg)', zIndex: 310, pointerEvents: 'none' }}
+            className="rounded-lg shadow-2xl border border-white/30 opacity-90"
+          />
+          <div style={{ position: 'fixed', left: 0, right: 0, bottom: 32, zIndex: 300, display: 'flex', flexDirection: 'column', alignItems: 'center', gap: 12 }}>
+            <span className="text-white/60 text-xs tracking-widest uppercase">Drop into another galaxy</span>
+            <div className="flex flex-wrap justify-center gap-3" style={{ maxWidth: '90vw' }}>
+              {targets.map(galaxy => (
+                <div
+                  key={galaxy.id}
+                  data-drop-galaxy={galaxy.id}
+                  style={{ borderColor: galaxy.color, background: over === galaxy.id ? `${galaxy.color}44` : undefined }}
+                  className="px-5 py-3 rounded-2xl border-2 border-dashed bg-black/50 backdrop-blur-xl text-white text-sm transition-colors"
+                >
+                  {galaxy.name}
+                </div>
+              ))}
+            </div>
+          </div>
+        </>
+      )}
+
+      {status && (
+        <div style={{ position: 'fixed', top: 84, right: 28, width: 280, zIndex: 150 }}>
+          <div className="bg-black/60 backdrop-blur-2xl border border-white/10 rounded-2xl p-4 shadow-2xl text-white text-xs">
+            <p className={status.state === 'failed' ? 'text-red-300/80' : undefined}>{status.text}</p>
+            {status.state === 'failed' && (
+              <button onClick={() => setStatus(null)} className="mt-2 text-white/50 hover:text-white">Dismiss</button>
+            )}
+          </div>
+        </div>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,106 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import type { SearchResult } from "@/lib/types";
+
+// Search across every galaxy. Opened with "/" or Ctrl/Cmd+K; picking a
+// result hands it back to the page, which flies the camera there.
+export default function SearchOverlay({
+  open,
+  onClose,
+  onPick,
+}: {
+  open: boolean;
+  onClose: () => void;
+  onPick: (result: SearchResult) => void;
+}) {
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<SearchResult[]>([]);
+  const [selected, setSelected] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    if (open) inputRef.current?.focus();
+  }, [open]);
+
+  // Debounced query; a newer keystroke aborts the request in flight
+  useEffect(() => {
+    if (!query.trim()) return;
+    const controller = new AbortController();
+    const timer = setTimeout(() => {
+      fetch(`/api/search?q=${encodeURIComponent(query)}`, { signal: controller.signal })
+        .then(async (res) => {
+          if (!res.ok) throw new Error((await res.json()).error);
+          return res.json() as Promise<SearchResult[]>;
+        })
+        .then(list => { setResults(list); setSelected(0); setError(null); })
+        .catch(err => { if (err.name !== 'AbortError') setError(err.message); });
+    }, 150);
+    return () => { clearTimeout(timer); controller.abort(); };
+  }, [query]);
+
+  if (!open) return null;
+  const shown = query.trim() ? results : [];
+
+  return (
+    <div
+      style={{ position: 'fixed', inset: 0, zIndex: 200, display: 'flex', justifyContent: 'center', paddingTop: '14vh' }}
+      className="bg-black/40 backdrop-blur-sm"
+      onClick={onClose}
+    >
+      <div
+        style={{ width: 480, maxWidth: 'calc(100vw - 32px)', height: 'fit-content' }}
+        className="bg-black/70 backdrop-blur-2xl border border-white/10 rounded-2xl shadow-2xl text-white overflow-hidden"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <input
+          ref={inputRef}
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          onKeyDown={(e) => {
+            // Keep Escape and arrows away from the scene's navigation keys
+            e.stopPropagation();
+            if (e.key === 'Escape') onClose();
+            else if (e.key === 'ArrowDown') { e.preventDefault(); setSelected(i => Math.min(i + 1, shown.length - 1)); }
+            else if (e.key === 'ArrowUp') { e.preventDefault(); setSelected(i => Math.max(i - 1, 0)); }
+            else if (e.key === 'Enter' && shown[selected]) onPick(shown[selected]);
+          }}
+          placeholder="Search memories — titles, #tags, people, dates…"
+          className="w-full px-5 py-4 bg-transparent text-sm outline-none placeholder:text-white/30 border-b border-white/10"
+        />
+
+        {error && <p className="px-5 py-3 text-xs text-red-300/80">{error}</p>}
+        {query.trim() && !error && shown.length === 0 && (
+          <p className="px-5 py-4 text-xs text-white/30 tracking-widest uppercase" style={{ fontFamily: 'monospace' }}>No memories found</p>
+        )}
+
+        <ul style={{ maxHeight: '50vh' }} className="overflow-y-auto">
+          {shown.map((result, i) => (
+            <li key={result.photo.id}>
+              <button
+                onClick={() => onPick(result)}
+                onMouseEnter={() => setSelected(i)}
+                className={`w-full flex items-center gap-3 px-4 py-2.5 text-left transition-colors ${i === selected ? 'bg-white/10' : ''}`}
+              >
+                {/* eslint-disable-next-line @next/next/no-img-element -- thumbnails already come resized from /api/image */}
+                <img src={result.photo.thumbUrl} alt={result.photo.title} className="w-12 h-9 object-cover rounded-md bg-white/5 flex-none" />
+                <div className="min-w-0 flex-1">
+                  <p className="text-sm truncate">{result.photo.title}</p>
+                  <p className="text-[10px] text-white/40 truncate flex items-center gap-1.5">
+                    <span style={{ width: 6, height: 6, borderRadius: '50%', background: result.color, boxShadow: `0 0 6px ${result.color}`, display: 'inline-block' }} />
+                    {result.galaxyName}
+                    {result.photo.date && <span>· {result.photo.date}</span>}
+                  </p>
+                </div>
+                {result.photo.tags.length > 0 && (
+                  <span className="text-[9px] text-white/30 truncate max-w-[80px]">#{result.photo.tags.join(' #')}</span>
+                )}
+              </button>
+            </li>
+          ))}
+        </ul>
+      </div>
+    </div>
+  );
+}
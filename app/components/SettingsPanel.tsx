@@ -0,0 +1,132 @@
+"use client";
+
+import { useState } from "react";
+import type { AudioBus } from "@/lib/audio";
+import type { QualitySetting, QualityTier } from "@/lib/quality";
+import { DPR_CAPS, PARTICLE_DENSITIES, STAR_COUNTS, type MotionSetting, type Settings } from "@/lib/settings";
+
+const VOLUMES: { bus: AudioBus; label: string }[] = [
+  { bus: 'master', label: 'Master' },
+  { bus: 'music', label: 'Music' },
+  { bus: 'sfx', label: 'Effects' },
+];
+
+const heading = "text-white/50 uppercase tracking-widest text-[10px]";
+const select = "bg-white/5 border border-white/10 rounded-lg px-2 py-1";
+
+// Settings, top right: volumes, graphics quality and motion. Changes apply
+// at once and are remembered in this browser.
+export default function SettingsPanel({
+  settings,
+  systemReducedMotion,
+  autoTier,
+  onChange,
+}: {
+  settings: Settings;
+  systemReducedMotion: boolean;
+  autoTier: QualityTier['name']; // what 'auto' has settled on
+  onChange: (changes: Partial<Settings>) => void;
+}) {
+  const [open, setOpen] = useState(false);
+
+  return (
+    <div style={{ position: 'fixed', top: 28, right: 172, zIndex: 100 }}>
+      <button
+        onClick={() => setOpen(o => !o)}
+        className="w-10 h-10 flex items-center justify-center rounded-full bg-black/40 backdrop-blur-xl border border-white/10 hover:border-white/30 text-white transition-all shadow-xl"
+        title="Settings"
+        aria-expanded={open}
+      >
+        <span style={{ fontSize: 15 }}>⚙️</span>
+      </button>
+      {open && (
+        <div className="absolute right-0 mt-2 w-64 bg-black/70 backdrop-blur-2xl border border-white/10 rounded-2xl shadow-2xl text-white text-xs p-4 space-y-4">
+          <div className="space-y-2">
+            <span className={heading}>Sound</span>
+            {VOLUMES.map(({ bus, label }) => (
+              <label key={bus} className="block">
+                <span className="flex justify-between text-white/70">
+                  {label}
+                  <span className="text-white/40" style={{ fontFamily: 'monospace' }}>{Math.round(settings.volumes[bus] * 100)}%</span>
+                </span>
+                <input
+                  type="range"
+                  min={0}
+                  max={1}
+                  step={0.05}
+                  value={settings.volumes[bus]}
+                  onChange={(e) => onChange({ volumes: { ...settings.volumes, [bus]: Number(e.target.value) } })}
+                  className="w-full accent-white"
+                />
+              </label>
+            ))}
+          </div>
+
+          <div className="space-y-2">
+            <span className={heading}>Graphics</span>
+            <label className="flex items-center justify-between">
+              <span className="text-white/70" title="Caps the options below; auto lowers it when frames run slow">Quality</span>
+              <select value={settings.quality} onChange={(e) => onChange({ quality: e.target.value as QualitySetting })} className={select}>
+                <option value="auto" className="bg-black">Auto ({autoTier})</option>
+                <option value="low" className="bg-black">Low</option>
+                <option value="medium" className="bg-black">Medium</option>
+                <option value="high" className="bg-black">High</option>
+              </select>
+            </label>
+            <label className="flex items-center justify-between">
+              <span className="text-white/70">Background stars</span>
+              <select value={settings.stars} onChange={(e) => onChange({ stars: Number(e.target.value) })} className={select}>
+                {STAR_COUNTS.map(n => <option key={n} value={n} className="bg-black">{n || 'None'}</option>)}
+              </select>
+            </label>
+            <label className="flex items-center justify-between">
+              <span className="text-white/70">Galaxy particles</span>
+              <select value={settings.particleDensity} onChange={(e) => onChange({ particleDensity: Number(e.target.value) })} className={select}>
+                {PARTICLE_DENSITIES.map(n => <option key={n} value={n} className="bg-black">{n * 100}%</option>)}
+              </select>
+            </label>
+            <label className="flex items-center justify-between">
+              <span className="text-white/70" title="Lower is faster on high-density screens">Max resolution</span>
+              <select value={settings.maxDpr} onChange={(e) => onChange({ maxDpr: Number(e.target.value) })} className={select}>
+                {DPR_CAPS.map(n => <option key={n} value={n} className="bg-black">{n}×</option>)}
+              </select>
+            </label>
+            <label className="flex items-center justify-between">
+              <span className="text-white/70">Bloom &amp; depth of field</span>
+              <input
+                type="checkbox"
+                checked={settings.postProcessing}
+                onChange={(e) => onChange({ postProcessing: e.target.checked })}
+                className="accent-white"
+              />
+            </label>
+            <label className="flex items-center justify-between">
+              <span className="text-white/70">Show performance stats</span>
+              <input
+                type="checkbox"
+                checked={settings.showStats}
+                onChange={(e) => onChange({ showStats: e.target.checked })}
+                className="accent-white"
+              />
+            </label>
+          </div>
+
+          <div className="space-y-2">
+            <span className={heading}>Motion</span>
+            <select
+              value={settings.motion}
+              onChange={(e) => onChange({ motion: e.target.value as MotionSetting })}
+              className={`${select} w-full`}
+              aria-label="Motion"
+            >
+              <option value="system" className="bg-black">Like the system ({systemReducedMotion ? 'reduced' : 'full'})</option>
+              <option value="reduced" className="bg-black">Reduced</option>
+              <option value="full" className="bg-black">Full</option>
+            </select>
+            <p className="text-white/40">Reduced motion turns off warp streaks, shooting stars and drifting cards.</p>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,143 @@
+"use client";
+
+import { useState } from "react";
+import { editFetch } from "@/lib/edit-fetch";
+import type { ShareSummary } from "@/lib/shares";
+import type { GalaxyConfig } from "@/lib/types";
+
+const EXPIRIES: { hours: number | null; label: string }[] = [
+  { hours: 24, label: 'in a day' },
+  { hours: 24 * 7, label: 'in a week' },
+  { hours: 24 * 30, label: 'in 30 days' },
+  { hours: null, label: 'never' },
+];
+
+const heading = "text-white/50 uppercase tracking-widest text-[10px]";
+const field = "mt-1 w-full bg-white/5 border border-white/10 rounded-lg px-2 py-1.5 text-sm";
+
+// Makes a read-only link to some galaxies, or to the photo that's open, with
+// an optional expiry and passphrase. Whoever opens the link sees only that.
+export default function SharePanel({
+  galaxies,
+  activeGalaxyId,
+  photo,
+  onClose,
+}: {
+  galaxies: GalaxyConfig[];
+  activeGalaxyId: string | null;
+  photo: { folder: string; filename: string; title: string } | null;
+  onClose: () => void;
+}) {
+  const [picked, setPicked] = useState<string[]>(() => (activeGalaxyId && !photo ? [activeGalaxyId] : []));
+  const [photoPicked, setPhotoPicked] = useState(!!photo);
+  const [label, setLabel] = useState('');
+  const [hours, setHours] = useState<number | null>(EXPIRIES[1].hours);
+  const [passphrase, setPassphrase] = useState('');
+  const [link, setLink] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const folders = galaxies.filter(g => picked.includes(g.id)).map(g => g.folder);
+  const photos = photo && photoPicked && !folders.includes(photo.folder) ? [`${photo.folder}/${photo.filename}`] : [];
+
+  const toggle = (id: string) => {
+    setPicked(p => p.includes(id) ? p.filter(x => x !== id) : [...p, id]);
+    setLink(null);
+  };
+
+  const create = async () => {
+    setSaving(true);
+    setError(null);
+    try {
+      const { url } = await editFetch<{ url: string; share: ShareSummary }>('/api/shares', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          galaxies: folders,
+          photos,
+          label,
+          ...(hours !== null && { expiresInHours: hours }),
+          ...(passphrase && { passphrase }),
+        }),
+      });
+      setLink(new URL(url, window.location.origin).href);
+      setCopied(false);
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const copy = () => {
+    if (!link) return;
+    navigator.clipboard.writeText(link).then(() => setCopied(true), () => setError('Copy failed — select the link instead'));
+  };
+
+  return (
+    <div style={{ position: 'fixed', top: 84, right: 28, width: 300, maxHeight: 'calc(100vh - 112px)', zIndex: 150 }}>
+      <div className="max-h-full flex flex-col bg-black/70 backdrop-blur-2xl border border-white/10 rounded-2xl shadow-2xl text-white overflow-hidden">
+        <div className="flex items-center justify-between px-5 pt-4 pb-3 border-b border-white/10">
+          <span className="text-sm font-medium tracking-wide">Share</span>
+          <button onClick={onClose} className="text-white/40 hover:text-white text-sm" title="Close">✕</button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-5 py-4 space-y-4 text-xs">
+          {photo && (
+            <label className="flex items-center gap-2">
+              <input type="checkbox" checked={photoPicked} onChange={(e) => { setPhotoPicked(e.target.checked); setLink(null); }} className="accent-white" />
+              <span className="text-white/80 truncate">This photo: {photo.title}</span>
+            </label>
+          )}
+
+          <div className="space-y-1">
+            <span className={heading}>Galaxies</span>
+            {galaxies.map(g => (
+              <label key={g.id} className="flex items-center gap-2">
+                <input type="checkbox" checked={picked.includes(g.id)} onChange={() => toggle(g.id)} className="accent-white" />
+                <span style={{ width: 8, height: 8, borderRadius: '50%', background: g.color }} />
+                <span className="text-white/80">{g.name}</span>
+              </label>
+            ))}
+          </div>
+
+          <label className="block">
+            <span className={heading}>Label</span>
+            <input value={label} onChange={(e) => { setLabel(e.target.value); setLink(null); }} placeholder="Shown to whoever opens it" className={field} />
+          </label>
+
+          <label className="block">
+            <span className={heading}>Expires</span>
+            <select value={hours ?? ''} onChange={(e) => { setHours(e.target.value ? Number(e.target.value) : null); setLink(null); }} className={field}>
+              {EXPIRIES.map(({ hours, label }) => <option key={label} value={hours ?? ''} className="bg-black">{label}</option>)}
+            </select>
+          </label>
+
+          <label className="block">
+            <span className={heading}>Passphrase</span>
+            <input type="password" autoComplete="new-password" value={passphrase} onChange={(e) => { setPassphrase(e.target.value); setLink(null); }} placeholder="Optional" className={field} />
+          </label>
+
+          {link && (
+            <div className="space-y-2">
+              <input readOnly value={link} onFocus={(e) => e.target.select()} style={{ fontFamily: 'monospace' }} className={field} />
+              <p className="text-white/40">Anyone with this link{passphrase && ' and the passphrase'} can view what&apos;s ticked, read-only.</p>
+            </div>
+          )}
+          {error && <p className="text-red-300/80">{error}</p>}
+        </div>
+
+        <div className="flex gap-2 px-5 py-4 border-t border-white/10">
+          <button
+            disabled={saving || (!folders.length && !photos.length)}
+            onClick={link ? copy : create}
+            className="flex-1 py-2 rounded-full bg-white/15 hover:bg-white/25 text-white text-sm border border-white/20 transition-all disabled:opacity-30 disabled:cursor-not-allowed"
+          >
+            {saving ? 'Creating…' : link ? (copied ? 'Copied' : 'Copy link') : 'Create link'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,70 @@
+"use client";
+
+import { SLIDESHOW_INTERVALS, type SlideshowOptions } from "@/lib/slideshow";
+
+type SlideshowState = 'playing' | 'paused' | null;
+
+const TOGGLES: { key: 'shuffle' | 'loop' | 'acrossGalaxies' | 'tour'; label: string; title: string }[] = [
+  { key: 'shuffle', label: '🔀 Shuffle', title: 'Random order' },
+  { key: 'loop', label: '🔁 Loop', title: 'Start over after the last photo' },
+  { key: 'acrossGalaxies', label: '🌌 All galaxies', title: 'Warp on to the next galaxy at the end of this one' },
+  { key: 'tour', label: '🎥 Tour', title: 'The camera orbits each photo' },
+];
+
+// Bottom-centre slideshow controls in a galaxy. Fades back while playing so
+// the photos have the screen; the page pauses it on any other interaction.
+export default function SlideshowBar({
+  state,
+  options,
+  onOptionsChange,
+  onPlay,
+  onPause,
+  onStop,
+}: {
+  state: SlideshowState;
+  options: SlideshowOptions;
+  onOptionsChange: (options: SlideshowOptions) => void;
+  onPlay: () => void;
+  onPause: () => void;
+  onStop: () => void;
+}) {
+  return (
+    <div
+      data-slideshow-bar
+      style={{ position: 'fixed', bottom: 40, left: '50%', transform: 'translateX(-50%)', zIndex: 100 }}
+      className={`transition-opacity duration-700 ${state === 'playing' ? 'opacity-20 hover:opacity-100' : 'opacity-100'}`}
+    >
+      <div className="flex items-center gap-2 px-3 py-2 bg-black/40 backdrop-blur-xl border border-white/10 rounded-full shadow-xl text-white text-xs">
+        <button
+          onClick={state === 'playing' ? onPause : onPlay}
+          className="px-4 py-1.5 rounded-full bg-white/10 hover:bg-white/20 text-sm transition-all"
+          title={state === 'playing' ? 'Pause (Space)' : 'Play slideshow (Space)'}
+        >
+          {state === 'playing' ? '⏸ Pause' : state === 'paused' ? '▶ Resume' : '▶ Slideshow'}
+        </button>
+        {state && (
+          <button onClick={onStop} className="px-3 py-1.5 rounded-full hover:bg-white/10 transition-all" title="Stop">⏹</button>
+        )}
+        <select
+          value={options.interval}
+          onChange={(e) => onOptionsChange({ ...options, interval: Number(e.target.value) })}
+          className="bg-transparent border border-white/10 rounded-full px-2 py-1.5"
+          aria-label="Seconds per photo"
+        >
+          {SLIDESHOW_INTERVALS.map(s => <option key={s} value={s} className="bg-black">{s}s</option>)}
+        </select>
+        {TOGGLES.map(({ key, label, title }) => (
+          <button
+            key={key}
+            onClick={() => onOptionsChange({ ...options, [key]: !options[key] })}
+            aria-pressed={options[key]}
+            title={title}
+            className={`px-3 py-1.5 rounded-full border transition-all ${options[key] ? 'border-white/30 bg-white/15 text-white' : 'border-transparent text-white/40 hover:text-white/70'}`}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
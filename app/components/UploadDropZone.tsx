@@ -0,0 +1,208 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { EditFailed, editFetch } from "@/lib/edit-fetch";
+import type { PhotoMetadata } from "@/lib/types";
+
+interface UploadTarget {
+  id: string;
+  folder: string;
+  name: string;
+  color: string;
+}
+
+interface UploadStatus {
+  galaxy: string;
+  done: number;
+  total: number;
+  added: number;
+  duplicates: number;
+  failures: string[];
+}
+
+function postPhoto(folder: string, file: File): Promise<{ photo: PhotoMetadata; duplicate: boolean }> {
+  const body = new FormData();
+  body.append('file', file);
+  return editFetch(`/api/photos/${folder}`, { method: 'POST', body });
+}
+
+// Drag photos anywhere onto the page: inside a galaxy they go into it, in the
+// universe view each galaxy becomes a drop target. Also puts an "add photos"
+// button next to search while a galaxy is open. Each file is posted on its
+// own; new photos are handed to the page as they land.
+export default function UploadDropZone({
+  galaxies,
+  activeGalaxyId,
+  onUploaded,
+}: {
+  galaxies: UploadTarget[];
+  activeGalaxyId: string | null;
+  onUploaded: (galaxyId: string, photo: PhotoMetadata) => void;
+}) {
+  const [dragging, setDragging] = useState(false);
+  const [status, setStatus] = useState<UploadStatus | null>(null);
+  const dragDepth = useRef(0);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const active = galaxies.find(g => g.id === activeGalaxyId) ?? null;
+
+  // Files dragged over the window show the drop targets; dropping outside one
+  // must not make the browser navigate to the file
+  useEffect(() => {
+    const hasFiles = (e: DragEvent) => e.dataTransfer?.types.includes('Files') ?? false;
+    const onEnter = (e: DragEvent) => {
+      if (!hasFiles(e)) return;
+      dragDepth.current += 1;
+      setDragging(true);
+    };
+    const onLeave = (e: DragEvent) => {
+      if (!hasFiles(e)) return;
+      dragDepth.current = Math.max(0, dragDepth.current - 1);
+      if (!dragDepth.current) setDragging(false);
+    };
+    const onOver = (e: DragEvent) => { if (hasFiles(e)) e.preventDefault(); };
+    const onDrop = (e: DragEvent) => {
+      e.preventDefault();
+      dragDepth.current = 0;
+      setDragging(false);
+    };
+    window.addEventListener('dragenter', onEnter);
+    window.addEventListener('dragleave', onLeave);
+    window.addEventListener('dragover', onOver);
+    window.addEventListener('drop', onDrop);
+    return () => {
+      window.removeEventListener('dragenter', onEnter);
+      window.removeEventListener('dragleave', onLeave);
+      window.removeEventListener('dragover', onOver);
+      window.removeEventListener('drop', onDrop);
+    };
+  }, []);
+
+  // The finished summary fades after a few seconds; failures stay until dismissed
+  useEffect(() => {
+    if (!status || status.done < status.total || status.failures.length) return;
+    const timer = setTimeout(() => setStatus(null), 4000);
+    return () => clearTimeout(timer);
+  }, [status]);
+
+  const upload = async (galaxy: UploadTarget, files: File[]) => {
+    if (!files.length) return;
+    const summary: UploadStatus = { galaxy: galaxy.name, done: 0, total: files.length, added: 0, duplicates: 0, failures: [] };
+    setStatus({ ...summary });
+
+    for (const file of files) {
+      try {
+        const result = await postPhoto(galaxy.folder, file);
+        if (result.duplicate) {
+          summary.duplicates += 1;
+        } else {
+          summary.added += 1;
+          onUploaded(galaxy.id, result.photo);
+        }
+      } catch (err) {
+        summary.failures.push(err instanceof Error ? err.message : `${file.name} failed`);
+        // Without a working token the rest would fail the same way
+        if (err instanceof EditFailed && (err.status === 401 || err.status === 403)) {
+          summary.done = summary.total;
+          setStatus({ ...summary });
+          return;
+        }
+      }
+      summary.done += 1;
+      setStatus({ ...summary });
+    }
+  };
+
+  const dropInto = (galaxy: UploadTarget) => (e: React.DragEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    dragDepth.current = 0;
+    setDragging(false);
+    upload(galaxy, Array.from(e.dataTransfer.files));
+  };
+
+  return (
+    <>
+      {/* Add photos — top right, next to search, while a galaxy is open */}
+      {active && (
+        <>
+          <button
+            onClick={() => inputRef.current?.click()}
+            style={{ position: 'fixed', top: 28, right: 124, zIndex: 100 }}
+            className="w-10 h-10 flex items-center justify-center rounded-full bg-black/40 backdrop-blur-xl border border-white/10 hover:border-white/30 text-white transition-all shadow-xl"
+            title={`Add photos to ${active.name}`}
+          >
+            <span style={{ fontSize: 18 }}>+</span>
+          </button>
+          <input
+            ref={inputRef}
+            type="file"
+            accept="image/*,.heic,.heif"
+            multiple
+            hidden
+            onChange={(e) => {
+              upload(active, Array.from(e.target.files ?? []));
+              e.target.value = '';
+            }}
+          />
+        </>
+      )}
+
+      {dragging && (
+        <div
+          style={{ position: 'fixed', inset: 0, zIndex: 300, display: 'flex', alignItems: 'center', justifyContent: 'center', padding: 48 }}
+          className="bg-black/50 backdrop-blur-sm"
+        >
+          {active ? (
+            <div
+              onDrop={dropInto(active)}
+              style={{ width: '100%', height: '100%', borderColor: active.color }}
+              className="flex flex-col items-center justify-center rounded-3xl border-2 border-dashed text-white"
+            >
+              <span className="text-2xl font-medium">Drop to add to {active.name}</span>
+              <span className="text-white/40 text-sm mt-2">JPEG, PNG, GIF, WebP, AVIF, HEIC or TIFF</span>
+            </div>
+          ) : (
+            <div className="flex flex-col items-center gap-6 text-white">
+              <span className="text-white/60 text-sm tracking-widest uppercase">Drop onto a galaxy</span>
+              <div className="flex flex-wrap justify-center gap-4" style={{ maxWidth: 720 }}>
+                {galaxies.map(galaxy => (
+                  <div
+                    key={galaxy.id}
+                    onDrop={dropInto(galaxy)}
+                    onDragEnter={(e) => e.currentTarget.style.background = `${galaxy.color}33`}
+                    onDragLeave={(e) => e.currentTarget.style.background = ''}
+                    style={{ width: 160, height: 100, borderColor: galaxy.color }}
+                    className="flex items-center justify-center text-center px-3 rounded-2xl border-2 border-dashed text-sm transition-colors"
+                  >
+                    {galaxy.name}
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+
+      {status && (
+        <div style={{ position: 'fixed', top: 84, right: 28, width: 280, zIndex: 150 }}>
+          <div className="bg-black/60 backdrop-blur-2xl border border-white/10 rounded-2xl p-4 shadow-2xl text-white text-xs">
+            {status.done < status.total ? (
+              <p>Uploading {status.done + 1} of {status.total} to {status.galaxy}…</p>
+            ) : (
+              <p>
+                {status.added} added to {status.galaxy}
+                {status.duplicates > 0 && <span className="text-white/50"> · {status.duplicates} already there</span>}
+              </p>
+            )}
+            {status.failures.map((failure, i) => (
+              <p key={i} className="text-red-300/80 mt-1">{failure}</p>
+            ))}
+            {status.failures.length > 0 && status.done >= status.total && (
+              <button onClick={() => setStatus(null)} className="mt-2 text-white/50 hover:text-white">Dismiss</button>
+            )}
+          </div>
+        </div>
+      )}
+    </>
+  );
+}
@@ -1,262 +1,90 @@
 "use client";
 
-import { useRef, useMemo, useState, useEffect, useCallback } from "react";
-import { Canvas, useFrame, useThree } from "@react-three/fiber";
-import { useTexture, Text, Html, CameraControls, Image } from "@react-three/drei";
+import { useRef, useMemo, useState, useEffect, useCallback, useSyncExternalStore } from "react";
+import { Canvas, useFrame, useThree, type RootState } from "@react-three/fiber";
+import { useTexture, Text, Html, CameraControls, CameraControlsImpl, Image, Line } from "@react-three/drei";
 import { EffectComposer, DepthOfField, Bloom } from "@react-three/postprocessing";
 import * as THREE from "three";
-import { useSpring, a } from "@react-spring/three";
+import { mesh } from "topojson-client";
+import type { GeometryCollection, Topology } from "topojson-specification";
+import { useSpring, a, to } from "@react-spring/three";
+import type { GalaxyConfig, GalaxyPhoto, PhotoMetadata, PhotoPage } from "@/lib/types";
+import AccessibleGallery, { type FocusTarget } from "./components/AccessibleGallery";
+import AccountPanel from "./components/AccountPanel";
+import FlightRecorder, { type FlightPlayback } from "./components/FlightRecorder";
+import GalaxyEditor, { type GalaxyStyle } from "./components/GalaxyEditor";
+import PerformanceHud from "./components/PerformanceHud";
+import PhotoMover, { type CardDrag } from "./components/PhotoMover";
+import SearchOverlay from "./components/SearchOverlay";
+import SettingsPanel from "./components/SettingsPanel";
+import SharePanel from "./components/SharePanel";
+import SlideshowBar from "./components/SlideshowBar";
+import UploadDropZone from "./components/UploadDropZone";
+import { playClickSound, playHoverHum, playMusic, playWarpSound, setBusVolume, stopMusic } from "@/lib/audio";
+import { downloadBlob, exportFlight, type FlightExportFormat } from "@/lib/flight-export";
+import { EMPTY_FLIGHT, flightDuration, sameView, sampleFlightPath, type FlightKeyframe, type FlightPath, type FlightView } from "@/lib/flight-path";
+import { ControllerReader, type ControllerCommand } from "@/lib/controller-input";
+import { formatExposure, formatMonth } from "@/lib/format";
+import { GestureTracker, LONG_PRESS_MS, isDoubleTap, touchPoint, withinSlop, type Gesture, type TouchPoint } from "@/lib/gestures";
+import { DEFAULT_SLIDESHOW, firstSlide, nextSlide, type SlideHistory, type SlideshowOptions } from "@/lib/slideshow";
+import {
+  getServerSettings, getSettings, subscribeMotionPreference, subscribeSettings, systemPrefersReducedMotion, updateSettings,
+} from "@/lib/settings";
+import { joinShare, leaveShare } from "@/lib/share-session";
+import type { ShareSummary } from "@/lib/shares";
+import { soundscapeFor } from "@/lib/soundscape";
+import { XR_POINTER, isXRSupported, startXRSession, type XRViewer } from "@/lib/xr";
+import { FrameGovernor, QUALITY_TIERS, tierIndex, type FrameStats, type QualityTier } from "@/lib/quality";
+import {
+  GLOBE_RADIUS, clusterLayout, clusterPins, clusterRadius, discRadiusFor, globePosition, layoutGalaxies, sizeFactorFor,
+  timelinePosition, universeFrame, visualPhotoCount, type GeoPin,
+  type UniverseFrame,
+} from "@/lib/layout";
 
-// --- Web Audio Engine (no external files needed) ---
-function createAudio() {
-  if (typeof window === 'undefined') return null;
-  try {
-    const ctx = new (window.AudioContext || (window as any).webkitAudioContext)();
-    return ctx;
-  } catch { return null; }
-}
-
-let _audioCtx: AudioContext | null = null;
-function getAudio() {
-  if (!_audioCtx) _audioCtx = createAudio();
-  return _audioCtx;
-}
-
-function playHoverHum(start: boolean) {
-  const ctx = getAudio();
-  if (!ctx) return undefined;
-  try {
-    ctx.resume();
-    const osc = ctx.createOscillator();
-    const gain = ctx.createGain();
-    osc.type = 'sine';
-    osc.frequency.value = 180;
-    gain.gain.setValueAtTime(0, ctx.currentTime);
-    gain.gain.linearRampToValueAtTime(start ? 0.05 : 0, ctx.currentTime + 0.15);
-    osc.connect(gain); gain.connect(ctx.destination);
-    osc.start();
-    if (!start) { gain.gain.linearRampToValueAtTime(0, ctx.currentTime + 0.3); osc.stop(ctx.currentTime + 0.35); }
-    return { stop: () => { gain.gain.setTargetAtTime(0, ctx.currentTime, 0.1); osc.stop(ctx.currentTime + 0.2); } };
-  } catch { return undefined; }
-}
-
-function playWarpSound() {
-  const ctx = getAudio();
-  if (!ctx) return;
-  try {
-    ctx.resume();
-    // Whoosh: freq sweep down
-    const osc = ctx.createOscillator();
-    const gain = ctx.createGain();
-    osc.type = 'sawtooth';
-    osc.frequency.setValueAtTime(800, ctx.currentTime);
-    osc.frequency.exponentialRampToValueAtTime(100, ctx.currentTime + 0.7);
-    gain.gain.setValueAtTime(0.15, ctx.currentTime);
-    gain.gain.exponentialRampToValueAtTime(0.001, ctx.currentTime + 0.7);
-    // Low pass to soften
-    const filter = ctx.createBiquadFilter();
-    filter.type = 'lowpass'; filter.frequency.value = 1200;
-    osc.connect(filter); filter.connect(gain); gain.connect(ctx.destination);
-    osc.start(); osc.stop(ctx.currentTime + 0.75);
-  } catch { }
-}
-
-function playClickSound() {
-  const ctx = getAudio();
-  if (!ctx) return;
-  try {
-    ctx.resume();
-    const osc = ctx.createOscillator();
-    const gain = ctx.createGain();
-    osc.type = 'sine';
-    osc.frequency.setValueAtTime(600, ctx.currentTime);
-    osc.frequency.exponentialRampToValueAtTime(300, ctx.currentTime + 0.12);
-    gain.gain.setValueAtTime(0.12, ctx.currentTime);
-    gain.gain.exponentialRampToValueAtTime(0.001, ctx.currentTime + 0.12);
-    osc.connect(gain); gain.connect(ctx.destination);
-    osc.start(); osc.stop(ctx.currentTime + 0.15);
-  } catch { }
-}
-
-// Ambient drone: 3 detuned sine oscillators for a space atmosphere hum
-let _ambientNodes: { oscs: OscillatorNode[]; masterGain: GainNode } | null = null;
+// --- Types & Data ---
+type ViewLevel = 'universe' | 'cluster' | 'photo' | 'timeline' | 'geo';
 
-function startAmbient() {
-  const ctx = getAudio();
-  if (!ctx || _ambientNodes) return;
-  try {
-    ctx.resume();
-    const masterGain = ctx.createGain();
-    masterGain.gain.setValueAtTime(0, ctx.currentTime);
-    masterGain.gain.linearRampToValueAtTime(0.06, ctx.currentTime + 3);
-    masterGain.connect(ctx.destination);
-
-    const freqs = [55, 110.2, 165.5, 82.4];
-    const oscs = freqs.map(f => {
-      const osc = ctx.createOscillator();
-      const g = ctx.createGain();
-      osc.type = 'sine';
-      osc.frequency.value = f;
-      g.gain.value = f === 55 ? 1 : 0.4;
-      osc.connect(g); g.connect(masterGain);
-      osc.start();
-      return osc;
-    });
-    _ambientNodes = { oscs, masterGain };
-  } catch { }
-}
+// A galaxy as fetched: config plus the photo pages loaded so far,
+// position still optional
+type LoadedGalaxy = GalaxyConfig & {
+  photos: PhotoMetadata[];
+  photoTotal: number;
+  nextCursor: string | null;
+};
 
-function stopAmbient() {
-  if (!_ambientNodes) return;
-  try {
-    const ctx = getAudio();
-    if (ctx) {
-      _ambientNodes.masterGain.gain.setTargetAtTime(0, ctx.currentTime, 0.5);
-      setTimeout(() => {
-        _ambientNodes?.oscs.forEach(o => { try { o.stop(); } catch { } });
-        _ambientNodes = null;
-      }, 2000);
-    }
-  } catch { }
+// A galaxy placed in universe space by the layout engine
+interface GalaxyData extends LoadedGalaxy {
+  position: [number, number, number];
 }
 
-
-// --- Types & Data ---
-type ViewLevel = 'universe' | 'cluster' | 'photo';
-
-interface PhotoMetadata {
-  id: string;
-  url: string;
-  title: string;
-  date: string;
-  description: string;
+// A deleted galaxy playing out its collapse; a merged one falls into `into`
+interface Collapse {
+  galaxy: GalaxyData;
+  into: [number, number, number] | null;
 }
 
-interface GalaxyData {
-  id: string;
-  name: string;
-  color: string;
-  position: [number, number, number];
-  rotation?: [number, number, number];
-  folder: string;
-  photoTitle: string;
-  photoDate: string;
-  photoDesc: string;
-  // Visual DNA — each galaxy has its own personality
-  arms: number;         // spiral arm count
-  thickness: number;    // disc height multiplier (0.3=flat, 1.5=puffy)
-  spinSpeed: number;    // rotation speed multiplier
-  coreGlow: number;     // core point-light intensity multiplier
-  photos: PhotoMetadata[];
-}
+// How long born and collapsing galaxies animate before they're ordinary (or gone)
+const GALAXY_TRANSITION_MS = 2500;
 
-const MAX_PHOTOS_PER_GALAXY = 8;
-
-// Static metadata — photos are loaded dynamically from /api/photos/{folder}
-const GALAXY_CONFIGS: Omit<GalaxyData, 'photos'>[] = [
-  {
-    id: 'special',
-    name: "Special Moments 🎉",
-    color: "#ffdd00",
-    position: [-22, 8, -10],
-    rotation: [0.3, 0.5, 0.2],
-    folder: 'special',
-    photoTitle: 'Special Moment',
-    photoDate: '2025',
-    photoDesc: 'Those rare, golden moments that make life extraordinary. Times we want to hold onto forever.',
-    arms: 2, thickness: 0.4, spinSpeed: 1.6, coreGlow: 2.2,  // starburst: 2 bright arms, fast, golden burst
-  },
-  {
-    id: 'style',
-    name: "Style & Looks ✨",
-    color: "#00aaff",
-    position: [24, -10, -18],
-    rotation: [-0.4, -0.3, 0.6],
-    folder: 'style',
-    photoTitle: 'Style Snapshot',
-    photoDate: '2024-2025',
-    photoDesc: 'Fashion experiments, new haircuts, and style evolution. Confidence captured.',
-    arms: 6, thickness: 0.2, spinSpeed: 0.7, coreGlow: 1.0,  // elegant: many fine-arm flat disc, slow & graceful
-  },
-  {
-    id: 'travel',
-    name: "Travel ✈️",
-    color: "#aa00ff",
-    position: [2, 18, -30],
-    rotation: [0.8, -0.2, -0.4],
-    folder: 'travel',
-    photoTitle: 'Adventure',
-    photoDate: 'Dec 2023',
-    photoDesc: 'Exploring new places around the world. Every street corner had a story.',
-    arms: 3, thickness: 0.8, spinSpeed: 1.0, coreGlow: 1.4,  // expansive: wide spread disc, classic galaxy feel
-  },
-  {
-    id: 'cafes',
-    name: "Coffee Shops ☕",
-    color: "#cc8855",
-    position: [-5, -16, -5],
-    rotation: [-0.6, 0.7, 0.1],
-    folder: 'cafes',
-    photoTitle: 'Café Moment',
-    photoDate: 'Jan 2024',
-    photoDesc: 'Caffeine-fueled adventures. Finding the perfect corner in every city.',
-    arms: 2, thickness: 1.2, spinSpeed: 0.5, coreGlow: 0.9,  // cozy: compact fluffy 2-arm, slow & warm
-  },
-  {
-    id: 'food',
-    name: "Food & Taste 🍜",
-    color: "#88ff44",
-    position: [-18, -8, -35],
-    rotation: [0.2, 0.9, -0.3],
-    folder: 'food',
-    photoTitle: 'Delicious Moment',
-    photoDate: '2024',
-    photoDesc: 'Every meal is a memory. From street food to home cooking, a journey through flavours.',
-    arms: 4, thickness: 0.6, spinSpeed: 1.2, coreGlow: 1.2,  // vibrant: irregular 4-arm scatter, medium spin
-  },
-  {
-    id: 'climbing',
-    name: "Climbing 🧗",
-    color: "#00ccff",
-    position: [14, 12, -42],
-    rotation: [-0.3, -0.8, 0.5],
-    folder: 'climbing',
-    photoTitle: 'Summit',
-    photoDate: '2024',
-    photoDesc: 'Reaching new heights, one hold at a time. The wall, the sweat, and the view from the top.',
-    arms: 3, thickness: 0.35, spinSpeed: 1.8, coreGlow: 1.6, // energetic: fast-spinning flat disc, intense core
-  },
-  {
-    id: 'spring',
-    name: "Spring & Sakura 🌸",
-    color: "#ffaac8",
-    position: [8, -14, -22],
-    rotation: [0.5, -0.4, 0.7],
-    folder: 'spring',
-    photoTitle: 'Blossom',
-    photoDate: 'Spring 2024',
-    photoDesc: 'Cherry blossoms, warm breezes, and the brief beauty of spring. A season that never lasts long enough.',
-    arms: 5, thickness: 0.9, spinSpeed: 0.6, coreGlow: 1.8,  // petal-like: 5 soft arms, gentle float, rosy glow
-  },
-  {
-    id: 'cooking',
-    name: "Cooking 👨‍🍳",
-    color: "#ff4488",
-    position: [-30, 14, -20],
-    rotation: [-0.2, 0.6, -0.5],
-    folder: 'cooking',
-    photoTitle: 'Recipe',
-    photoDate: '2024',
-    photoDesc: 'From prep to plating — the art of turning ingredients into something special.',
-    arms: 3, thickness: 1.0, spinSpeed: 1.3, coreGlow: 1.5,  // passionate: hot-pink, medium spin, vivid core
-  },
-];
+// First page per galaxy on load; the rest stream in once the galaxy is open
+const PHOTO_PAGE_SIZE = 60;
+// Textured cards kept alive around the camera in cluster view
+const NEARBY_CARDS = 36;
+// Textured cards either side of the scrub position in timeline view
+const TIMELINE_WINDOW = 20;
+// Globe pin grid size (degrees) for far, mid and close zoom
+const PIN_CELLS = [6, 1.5, 0.2];
+// Where the open photo's card sits, relative to its galaxy
+const PHOTO_FOCUS: [number, number, number] = [-1.5, 0, 6];
 
 
 // --- Fallback Texture Helper ---
+// When `url` changes (thumbnail -> full image) the previous texture stays on
+// screen until the new one has loaded, then gets disposed.
 function useAsyncTexture(url: string) {
   const [texture, setTexture] = useState<THREE.Texture | null>(null);
   const [error, setError] = useState(false);
+  const currentRef = useRef<THREE.Texture | null>(null);
 
   useEffect(() => {
     let active = true;
@@ -264,10 +92,12 @@ function useAsyncTexture(url: string) {
     loader.load(
       url,
       (tex) => {
-        if (!active) return;
+        if (!active) { tex.dispose(); return; }
         tex.colorSpace = THREE.SRGBColorSpace;
         tex.generateMipmaps = true;
         tex.minFilter = THREE.LinearMipmapLinearFilter;
+        currentRef.current?.dispose();
+        currentRef.current = tex;
         setTexture(tex);
       },
       undefined,
@@ -280,6 +110,9 @@ function useAsyncTexture(url: string) {
     return () => { active = false; };
   }, [url]);
 
+  // Free GPU memory when the card scrolls out of the nearby window
+  useEffect(() => () => { currentRef.current?.dispose(); }, []);
+
   return { texture, error };
 }
 
@@ -325,7 +158,7 @@ const NEBULAE = [
   { color: '#ff8800', pos: [20, 5, -90] as [number, number, number], scale: [70, 45] },
 ];
 
-function NebulaLayer() {
+function NebulaLayer({ count = NEBULAE.length }: { count?: number }) {
   const groupRef = useRef<THREE.Group>(null);
 
   const nebulaTexture = useMemo(() => {
@@ -355,7 +188,7 @@ function NebulaLayer() {
 
   return (
     <group ref={groupRef}>
-      {NEBULAE.map((n, i) => (
+      {NEBULAE.slice(0, count).map((n, i) => (
         <mesh key={i} position={n.pos} rotation={[0.1 * i, 0.2 * i, 0]}>
           <planeGeometry args={[n.scale[0], n.scale[1]]} />
           <meshBasicMaterial color={n.color} map={nebulaTexture} transparent opacity={0.07 + (i % 3) * 0.02} depthWrite={false} blending={THREE.AdditiveBlending} />
@@ -424,28 +257,33 @@ function ShootingStars() {
 }
 
 
-// Always-visible galaxy label with distance-based opacity
-function GalaxyLabel({ name, hovered, color }: { name: string; hovered: boolean; color: string }) {
+// Always-visible galaxy label with distance-based opacity, re-checked
+// `updateFps` times a second; the CSS transition smooths the steps. Pinned
+// labels (a long-pressed galaxy) show in full at any distance.
+function GalaxyLabel({ name, hovered, pinned, color, updateFps }: { name: string; hovered: boolean; pinned: boolean; color: string; updateFps: number }) {
   // Use Html overlay (no external font loading, always works)
-  const [opacity, setOpacity] = useState(0);
   const groupRef = useRef<THREE.Group>(null);
+  const labelRef = useRef<HTMLDivElement>(null);
+  const worldPos = useMemo(() => new THREE.Vector3(), []);
+  const sinceUpdate = useRef(Infinity);
   const { camera } = useThree();
 
-  useFrame(() => {
-    if (!groupRef.current) return;
-    const worldPos = new THREE.Vector3();
+  useFrame((_, delta) => {
+    sinceUpdate.current += delta;
+    if (!groupRef.current || !labelRef.current || sinceUpdate.current < 1 / updateFps) return;
+    sinceUpdate.current = 0;
     groupRef.current.getWorldPosition(worldPos);
     const dist = camera.position.distanceTo(worldPos);
     // Fade: visible from dist 15-40, hidden beyond 50
     const fade = Math.min(1, Math.max(0, 1 - (dist - 18) / 22));
-    setOpacity(hovered ? Math.min(1, fade + 0.4) : fade);
+    labelRef.current.style.opacity = String(pinned ? 1 : hovered ? Math.min(1, fade + 0.4) : fade);
   });
 
   return (
     <group ref={groupRef} position={[0, -3.5, 0]}>
       <Html center style={{ pointerEvents: 'none', transition: 'opacity 0.3s' }}>
-        <div style={{
-          opacity,
+        <div ref={labelRef} style={{
+          opacity: 0,
           color: hovered ? '#ffffff' : color,
           fontSize: 11,
           fontFamily: 'monospace',
@@ -467,17 +305,27 @@ function GalaxyLabel({ name, hovered, color }: { name: string; hovered: boolean;
 // Level 1: A single Galaxy cluster of particles — spiral disc design
 function GalaxyParticleCluster({
   galaxy,
-  onClick
+  onClick,
+  phase,
+  collapseTo = null,
+  density = 1,
+  labelFps = 60,
+  focused = false,
 }: {
   galaxy: GalaxyData;
   onClick: () => void;
+  phase?: 'born' | 'collapsing'; // just created, or just deleted and on its way out
+  collapseTo?: [number, number, number] | null; // merged: falls into this galaxy
+  density?: number; // particle count multiplier, from the graphics settings
+  labelFps?: number;
+  focused?: boolean; // keyboard focus in the accessible gallery list
 }) {
   // Scale by photo count
-  const photoCount = galaxy.photos.length;
-  const sizeFactor = 0.5 + Math.min(photoCount / 8, 1) * 0.8;
-  const count = Math.round(300 + photoCount * 55);
-  const discRadius = 2.5 + photoCount * 0.2;
-  const coreCount = 40 + photoCount * 8;
+  const photoCount = galaxy.photoTotal;
+  const sizeFactor = sizeFactorFor(photoCount);
+  const count = Math.round((300 + visualPhotoCount(photoCount) * 55) * density);
+  const discRadius = discRadiusFor(photoCount);
+  const coreCount = Math.round((40 + visualPhotoCount(photoCount) * 8) * density);
   // Visual DNA
   const arms = galaxy.arms ?? 3;
   const thickness = galaxy.thickness ?? 0.6;
@@ -490,6 +338,20 @@ function GalaxyParticleCluster({
   const [hovered, setHovered] = useState(false);
   const humRef = useRef<{ stop: () => void } | undefined>(undefined);
 
+  // Touch screens have no hover: holding a finger on the galaxy stands in
+  // for it, and lifting it afterwards doesn't warp in
+  const [held, setHeld] = useState(false);
+  const press = useRef<{ from: TouchPoint; timer: number } | null>(null);
+  const longPressed = useRef(false);
+  const endPress = () => {
+    if (!press.current) return;
+    clearTimeout(press.current.timer);
+    press.current = null;
+    if (!held) return;
+    setHeld(false); setHovered(false);
+    humRef.current?.stop(); humRef.current = undefined;
+  };
+
   const [positions, colors, corePosArr] = useMemo(() => {
     const pos = new Float32Array(count * 3);
     const col = new Float32Array(count * 3);
@@ -524,8 +386,17 @@ function GalaxyParticleCluster({
   const initRot = galaxy.rotation ?? [0, 0, 0];
   const baseSpeed = 0.10 * spinSpeed;
 
+  // Born from a point, spinning fast and settling; collapsing is the reverse.
+  // Position springs too, so the others glide over when the layout changes.
+  const { life, position } = useSpring({
+    from: { life: phase === 'born' ? 0 : 1, position: galaxy.position },
+    life: phase === 'collapsing' ? 0 : 1,
+    position: phase === 'collapsing' && collapseTo ? collapseTo : galaxy.position,
+    config: phase ? { mass: 2, tension: 50, friction: 22, clamp: true } : { mass: 1, tension: 120, friction: 40 },
+  });
+
   useFrame((state, delta) => {
-    const speed = hovered ? baseSpeed * 2.5 : baseSpeed;
+    const speed = (hovered ? baseSpeed * 2.5 : baseSpeed) * (1 + (1 - life.get()) * 12);
     if (pointsRef.current) pointsRef.current.rotation.y += delta * speed;
     if (coreRef.current) {
       coreRef.current.rotation.y += delta * speed * 1.6;
@@ -546,12 +417,20 @@ function GalaxyParticleCluster({
 
   return (
     <a.group
-      position={galaxy.position}
-      scale={scale}
+      position={position}
+      scale={to([scale, life], (s, l) => s * l)}
       rotation={initRot as [number, number, number]}
     >
       <pointLight position={[0, 0, 0]} intensity={hovered ? 5 * coreGlow : 2 * coreGlow} color={galaxy.color} distance={discRadius * 4} decay={2} />
 
+      {/* Focus ring, for keyboard navigation */}
+      {focused && (
+        <mesh rotation={[Math.PI / 2, 0, 0]}>
+          <ringGeometry args={[discRadius * 1.45, discRadius * 1.52, 96]} />
+          <meshBasicMaterial color="#ffffff" transparent opacity={0.85} side={THREE.DoubleSide} depthWrite={false} />
+        </mesh>
+      )}
+
       {/* Outer dust ring */}
       <mesh ref={ringRef} rotation={[Math.PI / 2, 0, 0]}>
         <ringGeometry args={[discRadius * 0.9, discRadius * 1.35, 64]} />
@@ -569,12 +448,28 @@ function GalaxyParticleCluster({
       {/* Spiral disc */}
       <points
         ref={pointsRef}
-        onClick={(e) => { e.stopPropagation(); playWarpSound(); onClick(); }}
+        onClick={(e) => { e.stopPropagation(); if (phase === 'collapsing' || longPressed.current) return; playWarpSound(); onClick(); }}
+        onPointerDown={(e) => {
+          longPressed.current = false;
+          if (e.pointerType !== 'touch' || phase === 'collapsing') return;
+          const timer = window.setTimeout(() => {
+            longPressed.current = true;
+            setHeld(true); setHovered(true);
+            humRef.current = playHoverHum(true) ?? undefined;
+          }, LONG_PRESS_MS);
+          press.current = { from: touchPoint(e.nativeEvent), timer };
+        }}
+        // Moving on is orbiting the camera, not pressing
+        onPointerMove={(e) => { if (press.current && !withinSlop(press.current.from, touchPoint(e.nativeEvent))) endPress(); }}
+        onPointerUp={endPress}
+        onPointerCancel={endPress}
         onPointerOver={(e) => {
-          e.stopPropagation(); setHovered(true); document.body.style.cursor = 'pointer';
+          e.stopPropagation(); if (phase === 'collapsing') return;
+          setHovered(true); document.body.style.cursor = 'pointer';
           humRef.current = playHoverHum(true) ?? undefined;
         }}
         onPointerOut={() => {
+          endPress();
           setHovered(false); document.body.style.cursor = 'auto';
           humRef.current?.stop(); humRef.current = undefined;
         }}
@@ -586,7 +481,7 @@ function GalaxyParticleCluster({
         <pointsMaterial size={0.07} vertexColors transparent opacity={hovered ? 1 : 0.82} sizeAttenuation />
       </points>
 
-      <GalaxyLabel name={galaxy.name} hovered={hovered} color={galaxy.color} />
+      <GalaxyLabel name={galaxy.name} hovered={hovered} pinned={held || focused} color={galaxy.color} updateFps={labelFps} />
     </a.group>
   );
 }
@@ -639,29 +534,43 @@ function WarpEffect({ active }: { active: boolean }) {
 function PhotoCard({
   photo,
   index,
-  total,
+  basePosition,
+  hoveredPosition,
   level,
   isSelected,
   hoveredIndex = null,
   setHoveredIndex,
   onCardClick,
   onTextureLoaded,
+  onDragStart,
+  entering = false,
+  still = false,
+  focused = false,
+  onZoom,
 }: {
   photo: PhotoMetadata;
   index: number;
-  total: number;
+  basePosition: [number, number, number];
+  hoveredPosition: [number, number, number] | null;
   level: ViewLevel;
   isSelected: boolean;
   hoveredIndex?: number | null;
   setHoveredIndex?: (idx: number | null) => void;
   onCardClick: () => void;
   onTextureLoaded?: () => void;
+  onDragStart?: (x: number, y: number) => void;
+  entering?: boolean; // just uploaded: floats up into its spot from below
+  still?: boolean; // reduced motion: no drifting or tumbling
+  focused?: boolean; // keyboard focus in the accessible gallery list
+  onZoom?: (point: [number, number, number]) => void; // double-tapped while open
 }) {
   const groupRef = useRef<THREE.Group>(null);
   const imageRef = useRef<any>(null);
-  const { texture, error } = useAsyncTexture(photo.url);
-  const isHovered = hoveredIndex === index && level === 'cluster';
+  // Small thumbnail while floating; the original once this card is the open photo
+  const { texture, error } = useAsyncTexture(level === 'photo' && isSelected ? photo.url : photo.thumbUrl);
+  const isHovered = (hoveredIndex === index || focused) && level === 'cluster';
   const notifiedLoad = useRef(false);
+  const taps = useRef<{ down: TouchPoint | null; last: TouchPoint | null }>({ down: null, last: null });
 
   useEffect(() => {
     if (imageRef.current && imageRef.current.material && texture) {
@@ -674,15 +583,11 @@ function PhotoCard({
     }
   }, [texture, isSelected, onTextureLoaded]);
 
-  // Calculate base position — wider circular distribution to reduce overlap
-  const angle = (index / total) * Math.PI * 2;
-  // Seed a stable radius from index so it doesn't recalculate on re-renders
-  const radius = 10 + (index % 3) * 1.5; // Wider: 10-13 range
-  const basePos = useMemo(() => new THREE.Vector3(
-    Math.cos(angle) * radius,
-    ((index % 5) - 2) * 2.5,  // Spread vertically as well, stable not random
-    Math.sin(angle) * radius * 0.6,
-  ), [angle, index, radius]);
+  // Base position comes from clusterLayout — ring for a few cards, disc for many
+  const basePos = useMemo(() => new THREE.Vector3(...basePosition), [basePosition]);
+  const [startPos] = useState(() =>
+    entering ? new THREE.Vector3(basePosition[0], basePosition[1] - 14, basePosition[2] + 6) : basePos
+  );
 
   // If another card is hovered, calculate a repel vector
   const repelVector = useMemo(() => new THREE.Vector3(), []);
@@ -707,23 +612,23 @@ function PhotoCard({
 
     if (level === 'cluster') {
       // 1. Cluster View Logic (Floating in space)
-      baseRotation.current.x += rotationSpeed[0] * delta;
-      baseRotation.current.y += rotationSpeed[1] * delta;
-      baseRotation.current.z += rotationSpeed[2] * delta;
+      if (!still) {
+        baseRotation.current.x += rotationSpeed[0] * delta;
+        baseRotation.current.y += rotationSpeed[1] * delta;
+        baseRotation.current.z += rotationSpeed[2] * delta;
+      }
       targetRotQ.setFromEuler(baseRotation.current);
 
-      const driftY = Math.sin(state.clock.elapsedTime * 0.5 + phaseOffset) * 0.4;
+      const driftY = still ? 0 : Math.sin(state.clock.elapsedTime * 0.5 + phaseOffset) * 0.4;
       targetPos.copy(basePos);
       targetPos.y += driftY;
 
       // Repel logic: if another card is hovered, push this one away slightly
-      if (hoveredIndex !== null && hoveredIndex !== index) {
-        // Calculate the base position of the hovered card (rough approximation based on index)
-        const hoveredAngle = (hoveredIndex / total) * Math.PI * 2;
+      if (hoveredPosition && hoveredIndex !== index) {
         const hoveredBasePos = new THREE.Vector3(
-          Math.cos(hoveredAngle) * radius,
-          0, // Ignore Y for horizontal repel
-          Math.sin(hoveredAngle) * radius * 0.5 - 2
+          hoveredPosition[0],
+          basePos.y, // Ignore Y for horizontal repel
+          hoveredPosition[2]
         );
 
         repelVector.subVectors(basePos, hoveredBasePos);
@@ -741,7 +646,7 @@ function PhotoCard({
     } else if (level === 'photo') {
       if (isSelected) {
         // Bring to front but shift slightly left so right-side HTML overlay fits beautifully
-        targetPos.set(-1.5, 0, 6);
+        targetPos.set(...PHOTO_FOCUS);
         targetRotQ.copy(flatRotQ); // Just flat, no custom dragging
       } else {
         // Push others out of view
@@ -777,11 +682,33 @@ function PhotoCard({
   return (
     <group
       ref={groupRef}
-      position={basePos}
+      position={startPos}
+      scale={entering ? 0.2 : 1}
       onClick={(e) => {
         e.stopPropagation();
+        if (e.delta > 8) return; // the end of a drag, not a click
         if (level === 'cluster') { playClickSound(); onCardClick(); }
       }}
+      onPointerDown={(e) => {
+        if (e.pointerType === 'touch' && level === 'photo' && isSelected) taps.current.down = touchPoint(e.nativeEvent);
+        // Dragging cards between galaxies is for mice and fingers, not VR rays
+        if (level !== 'cluster' || !onDragStart || e.button !== 0 || e.pointerType === XR_POINTER) return;
+        e.stopPropagation();
+        onDragStart(e.nativeEvent.clientX, e.nativeEvent.clientY);
+      }}
+      onPointerUp={(e) => {
+        const { down, last } = taps.current;
+        taps.current.down = null;
+        if (e.pointerType !== 'touch' || level !== 'photo' || !isSelected || !onZoom || !down) return;
+        const tap = touchPoint(e.nativeEvent);
+        if (!withinSlop(down, tap)) return; // a swipe
+        if (isDoubleTap(last, tap)) {
+          taps.current.last = null;
+          onZoom(e.point.toArray());
+        } else {
+          taps.current.last = tap;
+        }
+      }}
       onPointerOver={(e) => {
         e.stopPropagation();
         if (level === 'cluster' && setHoveredIndex) {
@@ -819,11 +746,72 @@ function PhotoCard({
         </mesh>
       )}
 
+      {/* Focus ring: a white frame just behind the card */}
+      {focused && (
+        <mesh position={[0, 0, -0.02]}>
+          <planeGeometry args={[4.8, 3.5]} />
+          <meshBasicMaterial color="#ffffff" side={THREE.DoubleSide} />
+        </mesh>
+      )}
+
       {/* No back face needed anymore — DoubleSide handles it! */}
     </group>
   );
 }
 
+// Cards outside the nearby window: one instanced mesh of blank cards in
+// place of hundreds of textured meshes. Still clickable.
+function CardPlaceholders({
+  layout,
+  indices,
+  visible,
+  colors,
+  scale = 1,
+  onSelect,
+}: {
+  layout: [number, number, number][];
+  indices: number[];
+  visible: boolean;
+  colors?: string[]; // per layout index; plain dark cards without
+  scale?: number;
+  onSelect: (index: number) => void;
+}) {
+  const meshRef = useRef<THREE.InstancedMesh>(null);
+
+  useEffect(() => {
+    const mesh = meshRef.current;
+    if (!mesh) return;
+    const matrix = new THREE.Matrix4();
+    const blank = new THREE.Color('#1a1a2e');
+    const tint = new THREE.Color();
+    indices.forEach((cardIndex, i) => {
+      matrix.makeTranslation(...layout[cardIndex]).scale(new THREE.Vector3(scale, scale, scale));
+      mesh.setMatrixAt(i, matrix);
+      // Tinted cards stay mostly dark so the loaded thumbnails stand out
+      if (colors) mesh.setColorAt(i, tint.set(colors[cardIndex]).lerp(blank, 0.6));
+    });
+    mesh.count = indices.length;
+    mesh.instanceMatrix.needsUpdate = true;
+    if (mesh.instanceColor) mesh.instanceColor.needsUpdate = true;
+    mesh.computeBoundingSphere();
+  }, [layout, indices, colors, scale]);
+
+  return (
+    <instancedMesh
+      ref={meshRef}
+      args={[undefined, undefined, Math.max(layout.length, 1)]}
+      visible={visible && indices.length > 0}
+      onClick={(e) => {
+        e.stopPropagation();
+        if (e.instanceId !== undefined) { playClickSound(); onSelect(indices[e.instanceId]); }
+      }}
+    >
+      <planeGeometry args={[4.5, 3.2]} />
+      <meshBasicMaterial color={colors ? '#ffffff' : '#1a1a2e'} side={THREE.DoubleSide} />
+    </instancedMesh>
+  );
+}
+
 // Level 2: Cluster View (displays photos of a single galaxy)
 function ClusterView({
   galaxy,
@@ -832,6 +820,11 @@ function ClusterView({
   onPhotoClick,
   onBack,
   onReady,
+  arrivals,
+  onCardDrag,
+  onPhotoZoom,
+  focusedPhotoId,
+  reducedMotion,
 }: {
   galaxy: GalaxyData;
   level: ViewLevel;
@@ -839,15 +832,90 @@ function ClusterView({
   onPhotoClick: (photo: PhotoMetadata) => void;
   onBack: () => void;
   onReady?: () => void;
+  arrivals: string[]; // ids of photos uploaded this session
+  onCardDrag: (photo: PhotoMetadata, x: number, y: number) => void;
+  onPhotoZoom: (point: [number, number, number]) => void;
+  focusedPhotoId: string | null;
+  reducedMotion: boolean;
 }) {
   const [hoveredIndex, setHoveredIndex] = useState<number | null>(null);
   const loadedCount = useRef(0);
   const readyCalled = useRef(false);
 
+  // Laid out for the full total so cards keep their spot as more pages arrive
+  const layout = useMemo(() => clusterLayout(galaxy.photoTotal), [galaxy.photoTotal]);
+  const photos = galaxy.photos;
+
+  // Only the cards nearest the camera get real textured PhotoCards
+  const [nearby, setNearby] = useState<number[]>(() =>
+    Array.from({ length: Math.min(photos.length, NEARBY_CARDS) }, (_, i) => i)
+  );
+  const nearbyKey = useRef('');
+  const lastNearbyCheck = useRef(-Infinity);
+  const localCamera = useMemo(() => new THREE.Vector3(), []);
+
+  useFrame(({ camera, clock }) => {
+    if (clock.elapsedTime - lastNearbyCheck.current < 0.4) return;
+    lastNearbyCheck.current = clock.elapsedTime;
+    localCamera.set(
+      camera.position.x - galaxy.position[0],
+      camera.position.y - galaxy.position[1],
+      camera.position.z - galaxy.position[2],
+    );
+    const next = photos
+      .map((_, i) => {
+        const [x, y, z] = layout[i];
+        const dx = x - localCamera.x, dy = y - localCamera.y, dz = z - localCamera.z;
+        return { i, d: dx * dx + dy * dy + dz * dz };
+      })
+      .sort((a, b) => a.d - b.d)
+      .slice(0, NEARBY_CARDS)
+      .map(({ i }) => i)
+      .sort((a, b) => a - b);
+    const key = next.join(',');
+    if (key !== nearbyKey.current) {
+      nearbyKey.current = key;
+      setNearby(next);
+    }
+  });
+
+  const activeIndex = photos.findIndex(p => p.id === activePhotoId);
+  const focusedIndex = photos.findIndex(p => p.id === focusedPhotoId);
+  const shown = useMemo(() => {
+    const set = new Set(nearby.filter(i => i < photos.length));
+    if (activeIndex !== -1) set.add(activeIndex); // the selected photo always renders
+    if (focusedIndex !== -1) set.add(focusedIndex); // ...and the focused one, to show its ring
+    // ...and so do new uploads, so they can be seen arriving
+    photos.forEach((photo, i) => { if (arrivals.includes(photo.id)) set.add(i); });
+    return set;
+  }, [nearby, activeIndex, focusedIndex, photos, arrivals]);
+  const placeholders = useMemo(() =>
+    photos.map((_, i) => i).filter(i => !shown.has(i))
+    , [photos, shown]);
+
+  // An empty galaxy has no textures to wait for
+  useEffect(() => {
+    if (photos.length || readyCalled.current) return;
+    readyCalled.current = true;
+    onReady?.();
+  }, [photos.length, onReady]);
+
+  // A pressed card may be about to be dragged, so the camera holds still
+  // until the pointer is released
+  const getState = useThree(state => state.get);
+  const startDrag = (photo: PhotoMetadata) => (x: number, y: number) => {
+    const controls = getState().controls as unknown as { enabled: boolean } | null;
+    if (controls) {
+      controls.enabled = false;
+      window.addEventListener('pointerup', () => { controls.enabled = true; }, { once: true });
+    }
+    onCardDrag(photo, x, y);
+  };
+
   const handlePhotoLoaded = () => {
     loadedCount.current += 1;
     // Fire onReady once the first 2 photos have their textures (feels responsive)
-    if (!readyCalled.current && loadedCount.current >= Math.min(2, galaxy.photos.length)) {
+    if (!readyCalled.current && loadedCount.current >= Math.min(2, photos.length)) {
       readyCalled.current = true;
       onReady?.();
     }
@@ -858,70 +926,757 @@ function ClusterView({
       {/* Subtle residual galaxy core behind the cards */}
       <pointLight position={[0, 0, 0]} intensity={2} color={galaxy.color} distance={30} />
 
-      {galaxy.photos.map((photo, index) => (
+      {photos.map((photo, index) => shown.has(index) && (
         <PhotoCard
           key={photo.id}
           photo={photo}
           index={index}
-          total={galaxy.photos.length}
+          basePosition={layout[index]}
+          hoveredPosition={hoveredIndex !== null ? layout[hoveredIndex] : null}
           level={level}
           isSelected={activePhotoId === photo.id}
           hoveredIndex={hoveredIndex}
           setHoveredIndex={setHoveredIndex}
           onCardClick={() => onPhotoClick(photo)}
           onTextureLoaded={handlePhotoLoaded}
+          onDragStart={startDrag(photo)}
+          entering={arrivals.includes(photo.id)}
+          still={reducedMotion}
+          focused={focusedPhotoId === photo.id}
+          onZoom={onPhotoZoom}
         />
       ))}
+
+      <CardPlaceholders
+        layout={layout}
+        indices={placeholders}
+        visible={level === 'cluster'}
+        onSelect={(i) => onPhotoClick(photos[i])}
+      />
+    </group>
+  );
+}
+
+
+// Timeline: one small card, framed in its galaxy's color
+function TimelineCard({
+  entry,
+  position,
+  onClick,
+}: {
+  entry: GalaxyPhoto;
+  position: [number, number, number];
+  onClick: () => void;
+}) {
+  const { texture } = useAsyncTexture(entry.photo.thumbUrl);
+  const [hovered, setHovered] = useState(false);
+
+  return (
+    <group
+      position={position}
+      scale={hovered ? 0.75 : 0.6}
+      onClick={(e) => { e.stopPropagation(); playClickSound(); onClick(); }}
+      onPointerOver={(e) => { e.stopPropagation(); setHovered(true); document.body.style.cursor = 'pointer'; }}
+      onPointerOut={() => { setHovered(false); document.body.style.cursor = 'auto'; }}
+    >
+      <mesh position={[0, 0, -0.02]}>
+        <planeGeometry args={[4.9, 3.6]} />
+        <meshBasicMaterial color={entry.color} transparent opacity={hovered ? 0.95 : 0.6} side={THREE.DoubleSide} />
+      </mesh>
+      <mesh>
+        <planeGeometry args={[4.5, 3.2]} />
+        <meshBasicMaterial map={texture} color={texture ? '#ffffff' : '#1a1a2e'} side={THREE.DoubleSide} />
+      </mesh>
     </group>
   );
 }
 
+// Timeline level: every dated photo on a helix, oldest on the left, with a
+// marker at each new month (bigger at each new year)
+function TimelineView({
+  entries,
+  scrub,
+  onPick,
+}: {
+  entries: GalaxyPhoto[];
+  scrub: number;
+  onPick: (entry: GalaxyPhoto) => void;
+}) {
+  const layout = useMemo(() => entries.map((_, i) => timelinePosition(i)), [entries]);
+  const colors = useMemo(() => entries.map(e => e.color), [entries]);
+
+  // Guide line through the helix, sampled between cards so it stays round
+  const path = useMemo(() => {
+    const points: [number, number, number][] = [];
+    for (let t = -1; t <= entries.length; t += 0.25) points.push(timelinePosition(t));
+    return points;
+  }, [entries.length]);
+
+  const markers = useMemo(() => {
+    const list: { index: number; label: string; year: boolean }[] = [];
+    entries.forEach((entry, i) => {
+      const month = formatMonth(entry.photo.exif!.takenAt!);
+      const prev = i > 0 ? formatMonth(entries[i - 1].photo.exif!.takenAt!) : '';
+      if (month !== prev) list.push({ index: i, label: month, year: month.slice(-4) !== prev.slice(-4) });
+    });
+    return list;
+  }, [entries]);
+
+  const centre = Math.round(scrub);
+  const shown = useMemo(() => {
+    const list: number[] = [];
+    for (let i = Math.max(0, centre - TIMELINE_WINDOW); i <= Math.min(entries.length - 1, centre + TIMELINE_WINDOW); i++) list.push(i);
+    return list;
+  }, [centre, entries.length]);
+  const placeholders = useMemo(() =>
+    entries.map((_, i) => i).filter(i => Math.abs(i - centre) > TIMELINE_WINDOW)
+    , [entries, centre]);
+
+  if (!entries.length) return null;
+
+  return (
+    <group>
+      {path.length > 1 && <Line points={path} color="#8899ff" transparent opacity={0.15} lineWidth={1} />}
+
+      {shown.map(i => (
+        <TimelineCard key={entries[i].photo.id} entry={entries[i]} position={layout[i]} onClick={() => onPick(entries[i])} />
+      ))}
+      <CardPlaceholders
+        layout={layout}
+        indices={placeholders}
+        visible
+        colors={colors}
+        scale={0.6}
+        onSelect={(i) => onPick(entries[i])}
+      />
+
+      {markers.map(m => (
+        <group key={m.index} position={[layout[m.index][0] - 0.7, m.year ? 8.5 : 7, 0]}>
+          <mesh position={[0, -3.5, 0]}>
+            <planeGeometry args={[0.03, 7]} />
+            <meshBasicMaterial color="#ffffff" transparent opacity={m.year ? 0.35 : 0.12} />
+          </mesh>
+          <Html center style={{ pointerEvents: 'none' }}>
+            <div style={{
+              color: '#ffffff',
+              opacity: m.year ? 0.9 : 0.5,
+              fontSize: m.year ? 13 : 10,
+              fontFamily: 'monospace',
+              fontWeight: m.year ? 'bold' : 'normal',
+              letterSpacing: '0.15em',
+              textTransform: 'uppercase',
+              whiteSpace: 'nowrap',
+              userSelect: 'none',
+            }}>
+              {m.year ? m.label : m.label.slice(0, 3)}
+            </div>
+          </Html>
+        </group>
+      ))}
+    </group>
+  );
+}
+
+// Country outlines as flat [x, y, z] pairs for lineSegments, lifted just off the globe
+function globeLines(topology: Topology, filter: (a: unknown, b: unknown) => boolean): Float32Array {
+  const { coordinates } = mesh(topology, topology.objects.countries as GeometryCollection, filter);
+  const points: number[] = [];
+  for (const line of coordinates) {
+    for (let i = 1; i < line.length; i++) {
+      points.push(...globePosition(line[i - 1][1], line[i - 1][0], 0.02), ...globePosition(line[i][1], line[i][0], 0.02));
+    }
+  }
+  return new Float32Array(points);
+}
+
+// A pin standing out of the globe; its height and head grow with the photo count
+function GlobePin({
+  pin,
+  open,
+  onOpen,
+  onPick,
+}: {
+  pin: GeoPin<GalaxyPhoto>;
+  open: boolean;
+  onOpen: (key: string | null) => void;
+  onPick: (entry: GalaxyPhoto) => void;
+}) {
+  const [hovered, setHovered] = useState(false);
+  const position = useMemo(() => globePosition(pin.lat, pin.lng), [pin.lat, pin.lng]);
+  const quaternion = useMemo(() =>
+    new THREE.Quaternion().setFromUnitVectors(new THREE.Vector3(0, 1, 0), new THREE.Vector3(...position).normalize())
+    , [position]);
+
+  const count = pin.items.length;
+  const height = 0.4 + Math.log2(count) * 0.25;
+  const head = 0.12 + Math.log2(count) * 0.03;
+  const color = pin.items[0].color;
+  const galaxies = [...new Set(pin.items.map(e => e.galaxyName))];
+
+  return (
+    <group position={position} quaternion={quaternion}>
+      <mesh position={[0, height / 2, 0]}>
+        <cylinderGeometry args={[0.015, 0.015, height, 6]} />
+        <meshBasicMaterial color={color} transparent opacity={0.6} />
+      </mesh>
+      <mesh
+        position={[0, height, 0]}
+        scale={hovered || open ? 1.5 : 1}
+        onClick={(e) => {
+          e.stopPropagation();
+          playClickSound();
+          if (count === 1) onPick(pin.items[0]);
+          else onOpen(open ? null : pin.key);
+        }}
+        onPointerOver={(e) => { e.stopPropagation(); setHovered(true); document.body.style.cursor = 'pointer'; }}
+        onPointerOut={() => { setHovered(false); document.body.style.cursor = 'auto'; }}
+      >
+        <sphereGeometry args={[head, 16, 16]} />
+        <meshBasicMaterial color={color} />
+      </mesh>
+
+      {hovered && !open && (
+        <Html position={[0, height + head + 0.2, 0]} center style={{ pointerEvents: 'none' }}>
+          <div className="px-3 py-1 rounded-full bg-black/60 backdrop-blur-xl border border-white/10 text-white text-[11px] whitespace-nowrap">
+            {count === 1 ? pin.items[0].photo.title : `${count} memories`}
+            <span className="text-white/40"> · {galaxies.join(', ')}</span>
+          </div>
+        </Html>
+      )}
+
+      {open && (
+        <Html position={[0, height + head + 0.2, 0]} style={{ transform: 'translate(-50%, calc(-100% - 8px))' }}>
+          <div className="bg-black/70 backdrop-blur-2xl border border-white/10 rounded-2xl p-2 shadow-2xl" style={{ width: 232 }}>
+            <div className="grid grid-cols-3 gap-1.5 overflow-y-auto" style={{ maxHeight: 220 }}>
+              {pin.items.map(entry => (
+                <button
+                  key={entry.photo.id}
+                  onClick={() => { playClickSound(); onPick(entry); }}
+                  title={entry.photo.title}
+                  className="relative aspect-square rounded-lg overflow-hidden border border-white/10 hover:border-white/50 transition-all"
+                  style={{ boxShadow: `inset 0 -3px 0 ${entry.color}` }}
+                >
+                  {/* Thumbnails are already resized by /api/image; next/image would resize them again */}
+                  {/* eslint-disable-next-line @next/next/no-img-element */}
+                  <img src={entry.photo.thumbUrl} alt={entry.photo.title} className="w-full h-full object-cover" loading="lazy" />
+                </button>
+              ))}
+            </div>
+          </div>
+        </Html>
+      )}
+    </group>
+  );
+}
+
+// Geo level: a stylized globe with country outlines and one pin per cluster
+// of nearby photos. Pins split up as the camera gets closer.
+function GlobeView({ entries, onPick }: { entries: GalaxyPhoto[]; onPick: (entry: GalaxyPhoto) => void }) {
+  // Outlines ship with the app (world-atlas), loaded only when the globe opens
+  const [outlines, setOutlines] = useState<{ coasts: Float32Array; borders: Float32Array } | null>(null);
+  useEffect(() => {
+    let cancelled = false;
+    import('world-atlas/countries-110m.json').then(({ default: world }) => {
+      if (cancelled) return;
+      const topology = world as unknown as Topology;
+      setOutlines({
+        coasts: globeLines(topology, (a, b) => a === b),
+        borders: globeLines(topology, (a, b) => a !== b),
+      });
+    });
+    return () => { cancelled = true; };
+  }, []);
+
+  const [tier, setTier] = useState(0);
+  useFrame(({ camera }) => {
+    const distance = camera.position.length();
+    const next = distance > 35 ? 0 : distance > 20 ? 1 : 2;
+    if (next !== tier) setTier(next);
+  });
+
+  const pins = useMemo(() =>
+    clusterPins(entries, e => e.photo.exif!.gps!, PIN_CELLS[tier])
+    , [entries, tier]);
+  const [openPin, setOpenPin] = useState<string | null>(null);
+
+  return (
+    <group>
+      <mesh onClick={() => setOpenPin(null)}>
+        <sphereGeometry args={[GLOBE_RADIUS, 64, 64]} />
+        <meshBasicMaterial color="#060a1c" />
+      </mesh>
+      {/* Atmosphere rim */}
+      <mesh scale={1.06}>
+        <sphereGeometry args={[GLOBE_RADIUS, 64, 64]} />
+        <meshBasicMaterial color="#4466ff" transparent opacity={0.08} side={THREE.BackSide} blending={THREE.AdditiveBlending} depthWrite={false} />
+      </mesh>
+
+      {outlines && (
+        <>
+          <lineSegments>
+            <bufferGeometry>
+              <bufferAttribute attach="attributes-position" args={[outlines.coasts, 3]} />
+            </bufferGeometry>
+            <lineBasicMaterial color="#7f9cff" transparent opacity={0.6} />
+          </lineSegments>
+          <lineSegments>
+            <bufferGeometry>
+              <bufferAttribute attach="attributes-position" args={[outlines.borders, 3]} />
+            </bufferGeometry>
+            <lineBasicMaterial color="#7f9cff" transparent opacity={0.2} />
+          </lineSegments>
+        </>
+      )}
+
+      {pins.map(pin => (
+        <GlobePin key={pin.key} pin={pin} open={openPin === pin.key} onOpen={setOpenPin} onPick={onPick} />
+      ))}
+    </group>
+  );
+}
+
+// Keeps the starfield around the camera while it travels along the timeline
+function FollowCamera({ active, children }: { active: boolean; children: React.ReactNode }) {
+  const groupRef = useRef<THREE.Group>(null);
+  useFrame(({ camera }) => {
+    if (groupRef.current) groupRef.current.position.x = active ? camera.position.x : 0;
+  });
+  return <group ref={groupRef}>{children}</group>;
+}
+
+// The parts of CameraControls a flight uses
+interface FlightControls {
+  enabled: boolean;
+  setLookAt: (px: number, py: number, pz: number, tx: number, ty: number, tz: number, transition: boolean) => void;
+  getPosition: (out: THREE.Vector3) => THREE.Vector3;
+  getTarget: (out: THREE.Vector3) => THREE.Vector3;
+}
+
+// Flies the camera along a recorded flight from the frame it starts on. The
+// pose is a function of the clock alone, so a flight stepped frame by frame
+// for an export comes out the same as the live preview. Runs before
+// CameraControls applies the pose each frame; dragging is off meanwhile.
+function FlightCamera({
+  flight,
+  onView,
+  onEnd,
+}: {
+  flight: FlightPath | null;
+  onView: (view: FlightView) => void;
+  onEnd: () => void;
+}) {
+  const controls = useThree(state => state.controls) as unknown as FlightControls | null;
+  const start = useRef<number | null>(null);
+  const shown = useRef<FlightView | null>(null);
+
+  useEffect(() => {
+    start.current = null;
+    shown.current = null;
+    if (!flight || !controls) return;
+    controls.enabled = false;
+    return () => { controls.enabled = true; };
+  }, [flight, controls]);
+
+  useFrame(({ clock }) => {
+    if (!flight || !controls) return;
+    start.current ??= clock.elapsedTime;
+    const t = clock.elapsedTime - start.current;
+    const pose = sampleFlightPath(flight, t);
+    if (!pose) return;
+    controls.setLookAt(...pose.position, ...pose.target, false);
+    if (!shown.current || !sameView(shown.current, pose.view)) {
+      shown.current = pose.view;
+      onView(pose.view);
+    }
+    if (t >= flightDuration(flight)) onEnd();
+  }, -2);
+
+  return null;
+}
+
+// Times frames for the automatic quality tier, and for the stats overlay
+// when `onStats` is given. Draw calls are counted over the whole frame, so
+// the post-processing passes are included. Not mounted while a flight is
+// being exported, since those frames are slow on purpose.
+function PerformanceGovernor({
+  tier,
+  adapt,
+  onTier,
+  onStats,
+}: {
+  tier: number;
+  adapt: boolean;
+  onTier: (tier: number) => void;
+  onStats: ((stats: FrameStats) => void) | null;
+}) {
+  const get = useThree(state => state.get);
+  const [governor] = useState(() => new FrameGovernor(tier));
+
+  useEffect(() => {
+    const { info } = get().gl;
+    info.autoReset = false;
+    return () => { info.autoReset = true; };
+  }, [get]);
+
+  useFrame(({ gl }, delta) => {
+    // Still last frame's totals: nothing has been drawn yet this frame
+    const { calls, triangles } = gl.info.render;
+    gl.info.reset();
+    if (!governor.sample(delta, adapt)) return;
+    if (governor.tier !== tier) onTier(governor.tier);
+    onStats?.({ fps: governor.fps, frameMs: 1000 / governor.fps, calls, triangles });
+  }, -10);
+
+  return null;
+}
+
+// Swipes and pinches anywhere on the canvas. CameraControls keeps its own
+// touch handling alongside: a closing pinch dollies out as it goes back,
+// and at photo level one finger doesn't orbit (see CameraRig), so a swipe
+// only changes the photo.
+function TouchGestures({
+  onSwipe,
+  onPinchClose,
+}: {
+  onSwipe: (direction: 1 | -1) => void;
+  onPinchClose: () => void;
+}) {
+  const canvas = useThree(state => state.gl.domElement);
+
+  useEffect(() => {
+    const tracker = new GestureTracker();
+    const handle = (gesture: Gesture | null) => {
+      if (gesture?.type === 'swipe') onSwipe(gesture.direction);
+      else if (gesture?.type === 'pinch-close') onPinchClose();
+    };
+    const onDown = (e: PointerEvent) => { if (e.pointerType === 'touch') tracker.down(e.pointerId, touchPoint(e)); };
+    const onMove = (e: PointerEvent) => { if (e.pointerType === 'touch') handle(tracker.move(e.pointerId, touchPoint(e))); };
+    const onUp = (e: PointerEvent) => { if (e.pointerType === 'touch') handle(tracker.up(e.pointerId, touchPoint(e))); };
+    const onCancel = (e: PointerEvent) => tracker.cancel(e.pointerId);
+    // Fingers may end up over the HTML overlays, so everything but the
+    // start is heard on the window
+    canvas.addEventListener('pointerdown', onDown);
+    window.addEventListener('pointermove', onMove);
+    window.addEventListener('pointerup', onUp);
+    window.addEventListener('pointercancel', onCancel);
+    return () => {
+      canvas.removeEventListener('pointerdown', onDown);
+      window.removeEventListener('pointermove', onMove);
+      window.removeEventListener('pointerup', onUp);
+      window.removeEventListener('pointercancel', onCancel);
+    };
+  }, [canvas, onSwipe, onPinchClose]);
+
+  return null;
+}
+
+// The parts of CameraControls a gamepad steers
+interface GamepadControls {
+  rotate: (azimuth: number, polar: number, transition: boolean) => void;
+  dolly: (distance: number, transition: boolean) => void;
+}
+
+const GAMEPAD_LOOK = 2;   // radians per second at full tilt
+const GAMEPAD_ZOOM = 25;  // units per second with a trigger fully in
+
+// Gamepads on the desktop and controllers in VR, through one reader: the
+// commands go to `onCommand`; on the desktop the right stick orbits the
+// camera and the triggers zoom, in VR the stick snap-turns the viewer.
+function ControllerNavigation({
+  xrViewer,
+  onCommand,
+}: {
+  xrViewer: XRViewer | null;
+  onCommand: (command: ControllerCommand) => void;
+}) {
+  const [reader] = useState(() => new ControllerReader());
+
+  useFrame(({ gl, controls }, delta) => {
+    const session = gl.xr.getSession();
+    const pads = session
+      ? [...session.inputSources].flatMap(source => source.gamepad ? [{ key: `xr-${source.handedness}`, pad: source.gamepad }] : [])
+      : [...(navigator.getGamepads?.() ?? [])].flatMap(pad => pad ? [{ key: `pad${pad.index}`, pad }] : []);
+    if (!pads.length) return;
+    const { commands, look, zoom } = reader.read(pads);
+    for (const command of commands) {
+      if (command === 'turn-left' || command === 'turn-right') xrViewer?.turn(command === 'turn-right' ? 1 : -1);
+      else onCommand(command);
+    }
+    const camera = controls as unknown as GamepadControls | null;
+    if (session || !camera) return;
+    if (look[0] || look[1]) camera.rotate(-look[0] * GAMEPAD_LOOK * delta, -look[1] * GAMEPAD_LOOK * delta, false);
+    if (zoom) camera.dolly(zoom * GAMEPAD_ZOOM * delta, false);
+  });
+
+  return null;
+}
+
+// In VR, each controller's ray stands in for the mouse: what it points at
+// is hovered, and pulling the trigger replays as pointer events, so
+// galaxies and cards handle it with their usual onClick
+function XRPointer() {
+  const get = useThree(state => state.get);
+  const [controllers] = useState(() => [0, 1].map(i => {
+    const controller = get().gl.xr.getController(i);
+    if (!controller.children.length) {
+      const ray = new THREE.BufferGeometry().setFromPoints([new THREE.Vector3(0, 0, 0), new THREE.Vector3(0, 0, -30)]);
+      controller.add(new THREE.Line(ray, new THREE.LineBasicMaterial({ color: '#ffffff', transparent: true, opacity: 0.4 })));
+    }
+    return controller;
+  }));
+  const active = useRef(controllers[0]);
+  const hover = useRef<(() => void) | null>(null);
+
+  useEffect(() => {
+    const state = get();
+    const previousCompute = state.events.compute;
+    const origin = new THREE.Vector3();
+    const direction = new THREE.Vector3();
+    state.setEvents({
+      compute: (_, { raycaster, camera }) => {
+        const { matrixWorld } = active.current;
+        raycaster.set(origin.setFromMatrixPosition(matrixWorld), direction.set(0, 0, -1).transformDirection(matrixWorld));
+        raycaster.camera = camera;
+      },
+    });
+    const target = state.events.connected as EventTarget | undefined;
+    const send = (type: string) => target?.dispatchEvent(type === 'click'
+      ? new MouseEvent(type, { bubbles: true })
+      : new PointerEvent(type, { bubbles: true, isPrimary: true, pointerType: XR_POINTER }));
+    const onSelectStart = (e: { target: THREE.XRTargetRaySpace }) => {
+      active.current = e.target;
+      send('pointerdown');
+    };
+    const onSelectEnd = () => { send('pointerup'); send('click'); };
+    controllers.forEach(c => { c.addEventListener('selectstart', onSelectStart); c.addEventListener('selectend', onSelectEnd); });
+    hover.current = () => send('pointermove');
+    return () => {
+      controllers.forEach(c => { c.removeEventListener('selectstart', onSelectStart); c.removeEventListener('selectend', onSelectEnd); });
+      hover.current = null;
+      get().setEvents({ compute: previousCompute });
+    };
+  }, [get, controllers]);
+
+  useFrame(() => hover.current?.());
+
+  return <>{controllers.map((controller, i) => <primitive key={i} object={controller} />)}</>;
+}
+
+// Word-wraps `text` into lines no wider than `width` on `ctx`
+function wrapText(ctx: CanvasRenderingContext2D, text: string, width: number): string[] {
+  const lines: string[] = [];
+  let line = '';
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    const next = line ? `${line} ${word}` : word;
+    if (line && ctx.measureText(next).width > width) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = next;
+    }
+  }
+  if (line) lines.push(line);
+  return lines;
+}
+
+// The photo detail panel as a card in the world, for VR where the HTML
+// overlay can't be seen: drawn onto a canvas once per photo
+function XRDetailPanel({ photo, color, position }: { photo: PhotoMetadata; color: string; position: [number, number, number] }) {
+  const texture = useMemo(() => {
+    const canvas = document.createElement('canvas');
+    canvas.width = 512;
+    canvas.height = 640;
+    const ctx = canvas.getContext('2d')!;
+    ctx.fillStyle = 'rgba(0, 0, 0, 0.75)';
+    ctx.beginPath();
+    ctx.roundRect(0, 0, 512, 640, 32);
+    ctx.fill();
+    let y = 64;
+    const write = (text: string, font: string, fill: string, gap: number, maxLines = 8) => {
+      ctx.font = font;
+      ctx.fillStyle = fill;
+      for (const line of wrapText(ctx, text, 448).slice(0, maxLines)) {
+        ctx.fillText(line, 32, y);
+        y += gap;
+      }
+      y += gap * 0.4;
+    };
+    write(photo.date.toUpperCase(), 'bold 20px sans-serif', '#a1a1aa', 28);
+    write(photo.title, '600 34px sans-serif', '#ffffff', 42, 3);
+    write(photo.description, '22px sans-serif', '#a1a1aa', 30);
+    if (photo.people.length) write(`with ${photo.people.join(', ')}`, '22px sans-serif', '#d4d4d8', 30);
+    if (photo.tags.length) write(photo.tags.map(t => `#${t}`).join('  '), '20px sans-serif', color, 28);
+    if (photo.exif?.camera) write(`📷 ${photo.exif.camera}  ${formatExposure(photo.exif)}`, '18px monospace', '#71717a', 26);
+    const tex = new THREE.CanvasTexture(canvas);
+    tex.colorSpace = THREE.SRGBColorSpace;
+    return tex;
+  }, [photo, color]);
+
+  useEffect(() => () => texture.dispose(), [texture]);
+
+  return (
+    <mesh position={position}>
+      <planeGeometry args={[2.4, 3]} />
+      <meshBasicMaterial map={texture} transparent depthWrite={false} />
+    </mesh>
+  );
+}
+
+interface CameraPose {
+  position: [number, number, number];
+  target: [number, number, number];
+}
+
+// Where the camera sits and what it looks at in each view
+function viewPose(level: ViewLevel, {
+  activeGalaxy,
+  frameCenter,
+  universeDistance,
+  timelineFocus,
+  globeFocus,
+  styleFocus,
+  photoZoom,
+}: {
+  activeGalaxy: GalaxyData | null;
+  frameCenter: [number, number, number];
+  universeDistance: number;
+  timelineFocus: [number, number, number];
+  globeFocus: [number, number, number];
+  styleFocus: { position: [number, number, number]; radius: number } | null;
+  photoZoom: [number, number, number] | null;
+}): CameraPose | null {
+  if (level === 'universe' && styleFocus) {
+    // Close-up for the style editor, with the galaxy left of the panel
+    const [gx, gy, gz] = styleFocus.position;
+    const r = styleFocus.radius;
+    return { position: [gx + r * 0.8, gy + r * 1.2, gz + r * 4], target: [gx + r * 0.8, gy, gz] };
+  } else if (level === 'universe') {
+    const [cx, cy, cz] = frameCenter;
+    return { position: [cx, cy + universeDistance * 0.1, cz + universeDistance], target: [cx, cy, cz] };
+  } else if (level === 'cluster' && activeGalaxy) {
+    const [gx, gy, gz] = activeGalaxy.position;
+    return { position: [gx, gy, gz + 20], target: [gx, gy, gz] };
+  } else if (level === 'photo' && photoZoom) {
+    // Close in on the double-tapped spot
+    const [px, py, pz] = photoZoom;
+    return { position: [px, py, pz + 3.2], target: [px, py, pz] };
+  } else if (level === 'photo' && activeGalaxy) {
+    // Look slightly to the left relative to the image (the tour takes over from here)
+    const [gx, gy, gz] = activeGalaxy.position;
+    return { position: [gx, gy, gz + 12], target: [gx - 0.5, gy, gz + 6] };
+  } else if (level === 'timeline') {
+    // Glide sideways along the helix, looking at its axis
+    const [x] = timelineFocus;
+    return { position: [x, 2, 18], target: [x, 0, 0] };
+  } else if (level === 'geo') {
+    // Face the part of the world with the most photos
+    return { position: globeFocus, target: [0, 0, 0] };
+  }
+  return null;
+}
 
 // Controls Camera based on View Level using CameraControls for free dragging
 function CameraRig({
   level,
-  activeGalaxy
+  activeGalaxy,
+  frame,
+  timelineFocus,
+  globeFocus,
+  styleFocus,
+  tour,
+  flying,
+  photoZoom,
+  xrViewer,
 }: {
   level: ViewLevel;
   activeGalaxy: GalaxyData | null;
+  frame: UniverseFrame;
+  timelineFocus: [number, number, number];
+  globeFocus: [number, number, number];
+  styleFocus: { position: [number, number, number]; radius: number } | null;
+  tour: boolean; // slideshow tour: orbit the open photo instead of holding still
+  flying: boolean; // a recorded flight has the camera
+  photoZoom: [number, number, number] | null; // double-tapped point on the open photo
+  xrViewer: XRViewer | null; // in VR: teleported rather than flown
 }) {
   const controlsRef = useRef<any>(null);
+  const camera = useThree(state => state.camera) as THREE.PerspectiveCamera;
+  const aspect = useThree(state => state.size.width / state.size.height);
+
+  // Distance at which the whole universe box fits the view, whichever of
+  // the vertical or horizontal FOV is the tighter one
+  const universeDistance = useMemo(() => {
+    const vHalf = THREE.MathUtils.degToRad(camera.fov) / 2;
+    const hHalf = Math.atan(Math.tan(vHalf) * aspect);
+    const [hx, hy, hz] = frame.halfSize;
+    return Math.max(hy / Math.tan(vHalf), hx / Math.tan(hHalf)) * 1.05 + hz;
+  }, [camera.fov, aspect, frame]);
+
+  // How far the cards of the open galaxy reach, to allow zooming out over all of them
+  const cardSpread = useMemo(() =>
+    activeGalaxy ? clusterRadius(clusterLayout(activeGalaxy.photoTotal)) : 0
+    , [activeGalaxy]);
 
   useEffect(() => {
     if (!controlsRef.current) return;
     const controls = controlsRef.current;
 
-    // Smooth transition camera rig for 3 stages
-    if (level === 'universe') {
-      controls.setLookAt(0, 5, 45, 0, 0, 0, true);
-    } else if (level === 'cluster' && activeGalaxy) {
-      const { position } = activeGalaxy;
-      controls.setLookAt(
-        position[0], position[1], position[2] + 20,
-        position[0], position[1], position[2],
-        true
-      );
-    } else if (level === 'photo' && activeGalaxy) {
-      // Look slightly to the left relative to the image
-      const { position } = activeGalaxy;
-      controls.setLookAt(
-        position[0], position[1], position[2] + 12,
-        position[0] - 0.5, position[1], position[2] + 6,
-        true
-      );
+    // One finger swipes between photos at photo level, so it doesn't orbit there
+    controls.touches.one = level === 'photo' ? CameraControlsImpl.ACTION.NONE : CameraControlsImpl.ACTION.TOUCH_ROTATE;
+
+    // A flight goes wherever it was recorded; the view's pose and limits
+    // come back when it ends
+    if (flying) {
+      controls.minDistance = 0;
+      controls.maxDistance = Infinity;
+      return;
     }
+
+    // Smooth transition camera rig for 3 stages; in VR the viewer is
+    // teleported to the same spot instead
+    const pose = viewPose(level, { activeGalaxy, frameCenter: frame.center, universeDistance, timelineFocus, globeFocus, styleFocus, photoZoom });
+    if (pose && xrViewer) xrViewer.moveTo(pose.position, pose.target);
+    else if (pose) controls.setLookAt(...pose.position, ...pose.target, true);
     // Set zoom limits per view level
     if (level === 'universe') {
       controls.minDistance = 15;  // Don't zoom in too close to galaxies
-      controls.maxDistance = 80;  // Don't zoom out so far they disappear
+      controls.maxDistance = Math.max(80, universeDistance * 1.5);  // Don't zoom out so far they disappear
     } else if (level === 'cluster') {
       controls.minDistance = 5;   // Stop before entering a card
-      controls.maxDistance = 35;  // Stay inside the cluster space
+      controls.maxDistance = Math.max(35, cardSpread * 2);  // Stay inside the cluster space
     } else if (level === 'photo') {
       controls.minDistance = 3;   // Can get close to photo
       controls.maxDistance = 22;  // Don't zoom out past photo cluster
+    } else if (level === 'timeline') {
+      controls.minDistance = 4;   // Close enough to read a card
+      controls.maxDistance = 45;  // Far enough to see a season at once
+    } else if (level === 'geo') {
+      controls.minDistance = GLOBE_RADIUS + 2;  // Stay above the surface
+      controls.maxDistance = 60;
+    }
+  }, [level, activeGalaxy, frame, universeDistance, cardSpread, timelineFocus, globeFocus, styleFocus, flying, photoZoom, xrViewer]);
+
+  // Tour: swing slowly from side to side in front of the open photo, drifting
+  // in, out, up and down, starting from the usual photo pose
+  const tourStart = useRef<number | null>(null);
+  useFrame(({ clock }) => {
+    const controls = controlsRef.current;
+    if (!tour || level !== 'photo' || !activeGalaxy || !controls) {
+      tourStart.current = null;
+      return;
     }
-  }, [level, activeGalaxy]);
+    tourStart.current ??= clock.elapsedTime;
+    const t = clock.elapsedTime - tourStart.current;
+    const [gx, gy, gz] = activeGalaxy.position;
+    const [cx, cy, cz] = [gx + PHOTO_FOCUS[0] + 1, gy + PHOTO_FOCUS[1], gz + PHOTO_FOCUS[2]];
+    const angle = Math.sin(t * 0.25) * 0.55;
+    const radius = 6 + Math.sin(t * 0.13) * 0.8;
+    controls.setLookAt(
+      cx + Math.sin(angle) * radius, cy + Math.sin(t * 0.17) * 0.8, cz + Math.cos(angle) * radius,
+      cx, cy, cz,
+      true
+    );
+  });
 
   return <CameraControls ref={controlsRef} makeDefault />;
 }
@@ -936,9 +1691,35 @@ function Scene({
   activeGalaxy,
   activePhotoId,
   setActivePhotoId,
-  onGalaxyEnter,
+  onGalaxyClick,
+  onZoomOut,
+  warpActive,
   onClusterReady,
   galaxies,
+  frame,
+  timeline,
+  timelineScrub,
+  setTimelineScrub,
+  onEntryPick,
+  geo,
+  globeFocus,
+  arrivals,
+  styledGalaxyId,
+  births,
+  collapsing,
+  onCardDrag,
+  tour,
+  flight,
+  onFlightView,
+  onFlightEnd,
+  stars,
+  postProcessing,
+  particleDensity,
+  quality,
+  reducedMotion,
+  focusTarget,
+  onFocusTarget,
+  xrViewer,
 }: {
   level: ViewLevel;
   setLevel: (l: ViewLevel) => void;
@@ -947,35 +1728,114 @@ function Scene({
   activeGalaxy: GalaxyData | null;
   activePhotoId: string | null;
   setActivePhotoId: (id: string | null) => void;
-  onGalaxyEnter: () => void;
+  onGalaxyClick: (galaxy: GalaxyData) => void;
+  onZoomOut: (to: 'cluster' | 'universe') => void;
+  warpActive: boolean;
   onClusterReady: () => void;
   galaxies: GalaxyData[];
+  frame: UniverseFrame;
+  timeline: GalaxyPhoto[];
+  timelineScrub: number;
+  setTimelineScrub: (index: number) => void;
+  onEntryPick: (entry: GalaxyPhoto) => void;
+  geo: GalaxyPhoto[];
+  globeFocus: [number, number, number];
+  arrivals: string[];
+  styledGalaxyId: string | null;
+  births: string[];
+  collapsing: Collapse[];
+  onCardDrag: (photo: PhotoMetadata, x: number, y: number) => void;
+  tour: boolean;
+  flight: FlightPath | null;
+  onFlightView: (view: FlightView) => void;
+  onFlightEnd: () => void;
+  stars: number;
+  postProcessing: boolean;
+  particleDensity: number;
+  quality: QualityTier; // caps the settings above when frames run slow
+  reducedMotion: boolean; // no warp streaks, shooting stars or drifting cards
+  focusTarget: FocusTarget | null; // ringed for keyboard navigation
+  onFocusTarget: (target: FocusTarget | null) => void;
+  xrViewer: XRViewer | null; // set while in VR
 }) {
-  const [warpActive, setWarpActive] = useState(false);
+  const timelineFocus = useMemo(() => timelinePosition(timelineScrub), [timelineScrub]);
+  // Only position and size, so dragging a style slider doesn't move the camera
+  const styled = galaxies.find(g => g.id === styledGalaxyId);
+  const styledPosition = styled?.position;
+  const styledTotal = styled?.photoTotal ?? 0;
+  const styleFocus = useMemo(() => styledPosition
+    ? { position: styledPosition, radius: discRadiusFor(styledTotal) * sizeFactorFor(styledTotal) }
+    : null
+    , [styledPosition, styledTotal]);
+
+  // One level back: Escape, or pinching closed on a touch screen
+  const goBack = useCallback(() => {
+    if (level !== 'universe') onZoomOut(level === 'photo' ? 'cluster' : 'universe');
+  }, [level, onZoomOut]);
+
+  // The next or previous photo: arrow keys, or swiping at photo level
+  const stepPhoto = useCallback((step: 1 | -1) => {
+    if (level !== 'photo' || !activeGalaxy || !activePhotoId) return;
+    const next = activeGalaxy.photos[activeGalaxy.photos.findIndex(p => p.id === activePhotoId) + step];
+    if (next) setActivePhotoId(next.id);
+  }, [level, activeGalaxy, activePhotoId, setActivePhotoId]);
+
+  // Double-tap zoom on the open photo; dropped once that photo is left
+  const [photoZoom, setPhotoZoom] = useState<{ photoId: string; point: [number, number, number] } | null>(null);
+  const zoomable = level === 'photo' ? activePhotoId : null;
+  if (photoZoom && photoZoom.photoId !== zoomable) setPhotoZoom(null);
+  const togglePhotoZoom = useCallback((point: [number, number, number]) => {
+    if (!zoomable) return;
+    setPhotoZoom(zoom => zoom ? null : { photoId: zoomable, point });
+  }, [zoomable]);
+
+  // Gamepad and VR controller commands. Next and previous move the focus
+  // ring through the galaxies or cards, as Tab does, and select opens the
+  // ringed one; on an open photo they step through the photos.
+  const handleCommand = useCallback((command: ControllerCommand) => {
+    if (command === 'back') { goBack(); return; }
+    const items: FocusTarget[] = level === 'universe' ? galaxies.map(g => ({ type: 'galaxy', id: g.id }))
+      : level === 'cluster' && activeGalaxy ? activeGalaxy.photos.map(p => ({ type: 'photo', id: p.id }))
+        : [];
+    if (command === 'select') {
+      const galaxy = focusTarget?.type === 'galaxy' ? galaxies.find(g => g.id === focusTarget.id) : undefined;
+      if (level === 'universe' && galaxy) {
+        playWarpSound();
+        onGalaxyClick(galaxy);
+      } else if (level === 'cluster' && focusTarget?.type === 'photo') {
+        playClickSound();
+        setActivePhotoId(focusTarget.id);
+        setLevel('photo');
+      }
+      return;
+    }
+    const step = command === 'next' ? 1 : -1;
+    if (level === 'photo') stepPhoto(step);
+    else if (level === 'timeline') setTimelineScrub(Math.min(Math.max(timelineScrub + step, 0), timeline.length - 1));
+    else if (items.length) {
+      const current = items.findIndex(t => t.type === focusTarget?.type && t.id === focusTarget?.id);
+      onFocusTarget(items[current === -1 ? (step > 0 ? 0 : items.length - 1) : (current + step + items.length) % items.length]);
+    }
+  }, [level, galaxies, activeGalaxy, focusTarget, goBack, stepPhoto, onGalaxyClick, setActivePhotoId, setLevel, onFocusTarget, timelineScrub, timeline.length, setTimelineScrub]);
+  const activePhoto = activeGalaxy?.photos.find(p => p.id === activePhotoId);
+
   // Global Keybindings for navigation
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
-      if (e.key === 'Escape') {
-        if (level === 'photo') {
-          setLevel('cluster');
-          setActivePhotoId(null);
-        } else if (level === 'cluster') {
-          setLevel('universe');
-          setActiveGalaxyId(null);
-        }
-      }
-      if (level === 'photo' && activeGalaxy && activePhotoId) {
-        const currentIndex = activeGalaxy.photos.findIndex(p => p.id === activePhotoId);
-        if (e.key === 'ArrowRight' && currentIndex < activeGalaxy.photos.length - 1) {
-          setActivePhotoId(activeGalaxy.photos[currentIndex + 1].id);
-        } else if (e.key === 'ArrowLeft' && currentIndex > 0) {
-          setActivePhotoId(activeGalaxy.photos[currentIndex - 1].id);
-        }
+      // Arrows move a slider's value or a caret, and Escape closes a panel
+      const typing = e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement || e.target instanceof HTMLSelectElement;
+      if (typing) return;
+      if (e.key === 'Escape') goBack();
+      if (level === 'timeline') {
+        if (e.key === 'ArrowRight') setTimelineScrub(Math.min(timelineScrub + 1, timeline.length - 1));
+        else if (e.key === 'ArrowLeft') setTimelineScrub(Math.max(timelineScrub - 1, 0));
       }
+      if (e.key === 'ArrowRight') stepPhoto(1);
+      else if (e.key === 'ArrowLeft') stepPhoto(-1);
     };
     window.addEventListener('keydown', handleKeyDown);
     return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [level, activeGalaxy, activePhotoId, setLevel, setActiveGalaxyId, setActivePhotoId]);
+  }, [level, goBack, stepPhoto, timeline.length, timelineScrub, setTimelineScrub]);
 
   return (
     <>
@@ -983,29 +1843,34 @@ function Scene({
       <ambientLight intensity={0.5} />
       <directionalLight position={[5, 10, 5]} intensity={1.5} color="#ffffff" />
       <directionalLight position={[-5, -5, -5]} intensity={0.5} color="#4455ff" />
-      <BackgroundStars count={2000} />
-      <ShootingStars />
+      <FollowCamera active={level === 'timeline'}>
+        <BackgroundStars count={stars} />
+        {!reducedMotion && <ShootingStars />}
+      </FollowCamera>
 
       {/* Level 1: Universe */}
-      {level === 'universe' && galaxies.map((galaxy: GalaxyData) => (
+      {/* Deleted galaxies stay a moment to collapse, under the same key so they don't remount */}
+      {level === 'universe' && [
+        ...galaxies.map(galaxy => ({ galaxy, into: null, phase: births.includes(galaxy.id) ? 'born' as const : undefined })),
+        ...collapsing.map(({ galaxy, into }) => ({ galaxy, into, phase: 'collapsing' as const })),
+      ].map(({ galaxy, into, phase }) => (
         <GalaxyParticleCluster
           key={galaxy.id}
           galaxy={galaxy}
-          onClick={() => {
-            onGalaxyEnter();
-            setWarpActive(true);
-            setTimeout(() => {
-              setActiveGalaxyId(galaxy.id);
-              setLevel('cluster');
-              setWarpActive(false);
-            }, 600);
-          }}
+          onClick={() => onGalaxyClick(galaxy)}
+          phase={phase}
+          collapseTo={into}
+          density={particleDensity * quality.particles}
+          labelFps={quality.labelFps}
+          focused={focusTarget?.type === 'galaxy' && focusTarget.id === galaxy.id}
         />
       ))}
+      {level === 'universe' && quality.nebulae > 0 && <NebulaLayer count={quality.nebulae} />}
 
       {/* Level 2 & 3: Cluster + Photo */}
       {(level === 'cluster' || level === 'photo') && activeGalaxy && (
         <ClusterView
+          key={activeGalaxy.id}
           galaxy={activeGalaxy}
           level={level}
           activePhotoId={activePhotoId}
@@ -1018,13 +1883,38 @@ function Scene({
             setActiveGalaxyId(null);
           }}
           onReady={onClusterReady}
+          arrivals={arrivals}
+          onCardDrag={onCardDrag}
+          onPhotoZoom={togglePhotoZoom}
+          focusedPhotoId={focusTarget?.type === 'photo' ? focusTarget.id : null}
+          reducedMotion={reducedMotion}
         />
       )}
 
-      <CameraRig level={level} activeGalaxy={activeGalaxy} />
-      <WarpEffect active={warpActive} />
+      {/* Timeline: every galaxy's photos in capture order */}
+      {level === 'timeline' && (
+        <TimelineView entries={timeline} scrub={timelineScrub} onPick={onEntryPick} />
+      )}
 
-      {level === 'universe' && (
+      {/* Geo: photos pinned where they were taken */}
+      {level === 'geo' && <GlobeView entries={geo} onPick={onEntryPick} />}
+
+      <CameraRig level={level} activeGalaxy={activeGalaxy} frame={frame} timelineFocus={timelineFocus} globeFocus={globeFocus} styleFocus={styleFocus} tour={tour} flying={flight !== null} photoZoom={photoZoom?.point ?? null} xrViewer={xrViewer} />
+      <TouchGestures onSwipe={stepPhoto} onPinchClose={goBack} />
+      <ControllerNavigation xrViewer={xrViewer} onCommand={handleCommand} />
+      {xrViewer && <XRPointer />}
+      {xrViewer && level === 'photo' && activeGalaxy && activePhoto && (
+        <XRDetailPanel
+          photo={activePhoto}
+          color={activeGalaxy.color}
+          position={[activeGalaxy.position[0] + PHOTO_FOCUS[0] + 3.75, activeGalaxy.position[1] + PHOTO_FOCUS[1], activeGalaxy.position[2] + PHOTO_FOCUS[2]]}
+        />
+      )}
+      <FlightCamera flight={flight} onView={onFlightView} onEnd={onFlightEnd} />
+      {!reducedMotion && <WarpEffect active={warpActive} />}
+
+      {/* Not in VR: the composer draws to the page, not the headset */}
+      {level === 'universe' && postProcessing && quality.postProcessing && !xrViewer && (
         <EffectComposer>
           <DepthOfField focusDistance={0.05} focalLength={0.15} bokehScale={3} height={360} />
           <Bloom luminanceThreshold={0.6} luminanceSmoothing={0.9} intensity={1.2} />
@@ -1097,45 +1987,274 @@ function LoadingScreen({ visible }: { visible: boolean }) {
   );
 }
 
+async function fetchPhotoPage(folder: string, cursor: string | null): Promise<PhotoPage> {
+  const params = new URLSearchParams({ limit: String(PHOTO_PAGE_SIZE) });
+  if (cursor) params.set('cursor', cursor);
+  const res = await fetch(`/api/photos/${folder}?${params}`);
+  if (!res.ok) throw new Error((await res.json()).error);
+  return res.json();
+}
+
+// A galaxy with its first page of photos; empty when they fail to load
+async function loadGalaxyPhotos(cfg: GalaxyConfig): Promise<LoadedGalaxy> {
+  try {
+    const page = await fetchPhotoPage(cfg.folder, null);
+    return { ...cfg, photos: withGalaxyText(cfg, page.photos, 0), photoTotal: page.total, nextCursor: page.nextCursor };
+  } catch (err) {
+    console.error(`Photos for "${cfg.folder}" failed to load:`, err);
+    return { ...cfg, photos: [], photoTotal: 0, nextCursor: null };
+  }
+}
+
+// Galaxy-level text fills in whatever the photo itself doesn't carry;
+// `offset` keeps fallback titles numbered across pages
+function withGalaxyText(cfg: GalaxyConfig, photos: PhotoMetadata[], offset: number): PhotoMetadata[] {
+  return photos.map((photo, i) => ({
+    ...photo,
+    title: photo.title || `${cfg.photoTitle} ${offset + i + 1}`,
+    date: photo.date || cfg.photoDate,
+    description: photo.description || cfg.photoDesc,
+  }));
+}
+
+// --- Deep links: ?galaxy=<id>&photo=<filename>, or ?view=timeline|geo ---
+type RouteView = 'timeline' | 'geo';
+
+interface Route {
+  galaxy: string | null;
+  photo: string | null;
+  view?: RouteView | null;
+}
+
+function readRoute(): Route {
+  const params = new URLSearchParams(window.location.search);
+  const view = params.get('view');
+  return {
+    galaxy: params.get('galaxy'),
+    photo: params.get('photo'),
+    view: view === 'timeline' || view === 'geo' ? view : null,
+  };
+}
+
+function routeSearch({ galaxy, photo, view }: Route): string {
+  const params = new URLSearchParams();
+  if (view) params.set('view', view);
+  else if (galaxy) params.set('galaxy', galaxy);
+  if (galaxy && photo) params.set('photo', photo);
+  const search = params.toString();
+  return search ? `?${search}` : '';
+}
+
 // --- Gallery Page ---
 export default function GalleryPage() {
-  const [galaxies, setGalaxies] = useState<GalaxyData[]>(() =>
-    GALAXY_CONFIGS.map(cfg => ({ ...cfg, photos: [] }))
-  );
+  const [loadedGalaxies, setLoadedGalaxies] = useState<LoadedGalaxy[]>([]);
   const [galaxyLoading, setGalaxyLoading] = useState(false);
-  const [muted, setMuted] = useState(false);
+  const settings = useSyncExternalStore(subscribeSettings, getSettings, getServerSettings);
+  const systemReducedMotion = useSyncExternalStore(subscribeMotionPreference, systemPrefersReducedMotion, () => false);
+  const reducedMotion = settings.motion === 'reduced' || (settings.motion === 'system' && systemReducedMotion);
+  // Where the governor has settled, used while quality is on auto
+  const [autoTier, setAutoTier] = useState(QUALITY_TIERS.length - 1);
+  const [frameStats, setFrameStats] = useState<FrameStats | null>(null);
+  const [focusTarget, setFocusTarget] = useState<FocusTarget | null>(null);
+  const quality = QUALITY_TIERS[settings.quality === 'auto' ? autoTier : tierIndex(settings.quality)];
   const [level, setLevel] = useState<ViewLevel>('universe');
   const [activeGalaxyId, setActiveGalaxyId] = useState<string | null>(null);
   const [activePhotoId, setActivePhotoId] = useState<string | null>(null);
+  const [warpActive, setWarpActive] = useState(false);
+  const [searchOpen, setSearchOpen] = useState(false);
+  const [timeline, setTimeline] = useState<GalaxyPhoto[] | null>(null);
+  const [timelineScrub, setTimelineScrub] = useState(0);
+  const [geo, setGeo] = useState<GalaxyPhoto[] | null>(null);
+  const [hiddenLayers, setHiddenLayers] = useState<string[]>([]);
+  const [arrivals, setArrivals] = useState<string[]>([]);
+  const [editorOpen, setEditorOpen] = useState(false);
+  const [styleDraft, setStyleDraft] = useState<{ id: string | null; draft: Partial<GalaxyStyle> }>({ id: null, draft: {} });
+  const [births, setBirths] = useState<string[]>([]);
+  const [collapsing, setCollapsing] = useState<Collapse[]>([]);
+  const [cardDrag, setCardDrag] = useState<CardDrag | null>(null);
+  const [slideshow, setSlideshow] = useState<'playing' | 'paused' | null>(null);
+  const [slideshowOptions, setSlideshowOptions] = useState<SlideshowOptions>(DEFAULT_SLIDESHOW);
+  const [flightOpen, setFlightOpen] = useState(false);
+  const [flightPath, setFlightPath] = useState<FlightPath>(EMPTY_FLIGHT);
+  const [flightPlayback, setFlightPlayback] = useState<FlightPlayback | null>(null);
+  const [shareOpen, setShareOpen] = useState(false);
+  // The share link this browser came in through; the server already limits
+  // everything below to it, this just says so and hides the editing tools
+  const [share, setShare] = useState<ShareSummary | null>(null);
+  const [shareProblem, setShareProblem] = useState<string | null>(null);
+
+  // Join the share in the address, if any, then discover the galaxies and
+  // load each one's first photo page
+  useEffect(() => {
+    joinShare()
+      .then(setShare, (err: Error) => setShareProblem(err.message))
+      .then(() => fetch('/api/galaxies'))
+      .then(async (res) => {
+        if (!res.ok) throw new Error((await res.json()).error);
+        return res.json() as Promise<GalaxyConfig[]>;
+      })
+      .then(configs => Promise.all(configs.map(loadGalaxyPhotos)))
+      .then(setLoadedGalaxies)
+      .catch(err => console.error('Galaxies failed to load:', err));
+  }, []);
 
-  // Dynamically load photo filenames from the API on mount
+  // Stream the remaining pages of the open galaxy, one request at a time
+  const openGalaxy = loadedGalaxies.find(g => g.id === activeGalaxyId);
+  const openFolder = openGalaxy?.folder ?? null;
+  const openCursor = openGalaxy?.nextCursor ?? null;
   useEffect(() => {
-    Promise.all(
-      GALAXY_CONFIGS.map(async (cfg) => {
-        try {
-          const res = await fetch(`/api/photos/${cfg.folder}`);
-          const files: string[] = await res.json();
-          const photos: PhotoMetadata[] = files
-            .slice(0, MAX_PHOTOS_PER_GALAXY)
-            .map((filename, i) => ({
-              id: `${cfg.id}-p${i}`,
-              url: `/memories/${cfg.folder}/${filename}`,
-              title: `${cfg.photoTitle} ${i + 1}`,
-              date: cfg.photoDate,
-              description: cfg.photoDesc,
-            }));
-          return { ...cfg, photos };
-        } catch {
-          return { ...cfg, photos: [] };
-        }
+    if (!openFolder || !openCursor) return;
+    let cancelled = false;
+    fetchPhotoPage(openFolder, openCursor)
+      .then(page => {
+        if (cancelled) return;
+        setLoadedGalaxies(prev => prev.map(g => g.folder === openFolder && g.nextCursor === openCursor
+          ? {
+            ...g,
+            // Skips photos uploaded this session, which are already at the end
+            photos: [...g.photos, ...withGalaxyText(g, page.photos.filter(p => !g.photos.some(q => q.id === p.id)), g.photos.length)],
+            photoTotal: page.total,
+            nextCursor: page.nextCursor,
+          }
+          : g));
+      })
+      .catch(err => console.error(`More photos for "${openFolder}" failed to load:`, err));
+    return () => { cancelled = true; };
+  }, [openFolder, openCursor]);
+
+  // The timeline is fetched the first time it's opened
+  useEffect(() => {
+    if (level !== 'timeline' || timeline) return;
+    fetch('/api/timeline')
+      .then(async (res) => {
+        if (!res.ok) throw new Error((await res.json()).error);
+        return res.json() as Promise<GalaxyPhoto[]>;
       })
-    ).then(setGalaxies);
+      .then(setTimeline)
+      .catch(err => console.error('Timeline failed to load:', err));
+  }, [level, timeline]);
+
+  // Likewise the photo locations, the first time the globe is opened
+  useEffect(() => {
+    if (level !== 'geo' || geo) return;
+    fetch('/api/geo')
+      .then(async (res) => {
+        if (!res.ok) throw new Error((await res.json()).error);
+        return res.json() as Promise<GalaxyPhoto[]>;
+      })
+      .then(setGeo)
+      .catch(err => console.error('Photo locations failed to load:', err));
+  }, [level, geo]);
+
+  // One toggleable layer per galaxy that has located photos
+  const geoLayers = useMemo(() => {
+    const layers = new Map<string, { id: string; name: string; color: string; count: number }>();
+    for (const entry of geo ?? []) {
+      const layer = layers.get(entry.galaxyId) ?? { id: entry.galaxyId, name: entry.galaxyName, color: entry.color, count: 0 };
+      layer.count++;
+      layers.set(entry.galaxyId, layer);
+    }
+    return [...layers.values()];
+  }, [geo]);
+
+  const visibleGeo = useMemo(() =>
+    (geo ?? []).filter(e => !hiddenLayers.includes(e.galaxyId))
+    , [geo, hiddenLayers]);
+
+  // Camera position over the average photo location; the average of unit
+  // vectors, so photos on both sides of the date line don't cancel out
+  const globeFocus = useMemo<[number, number, number]>(() => {
+    const sum = new THREE.Vector3();
+    for (const entry of geo ?? []) sum.add(new THREE.Vector3(...globePosition(entry.photo.exif!.gps!.lat, entry.photo.exif!.gps!.lng)));
+    if (sum.lengthSq() === 0) sum.set(0, 0, 1);
+    return sum.setLength(GLOBE_RADIUS * 3).toArray();
+  }, [geo]);
+
+  // An uploaded photo joins the end of its galaxy, so no other card moves; the
+  // timeline and globe are refetched next time they're opened
+  const addUploadedPhoto = useCallback((galaxyId: string, photo: PhotoMetadata) => {
+    setLoadedGalaxies(prev => prev.map(g => g.id === galaxyId && !g.photos.some(p => p.id === photo.id)
+      ? { ...g, photos: [...g.photos, ...withGalaxyText(g, [photo], g.photos.length)], photoTotal: g.photoTotal + 1 }
+      : g));
+    setArrivals(a => [...a, photo.id]);
+    setTimeline(null);
+    setGeo(null);
   }, []);
 
+  const { muted, volumes } = settings;
   useEffect(() => {
-    if (!muted) { startAmbient(); } else { stopAmbient(); }
-    return () => stopAmbient();
-  }, [muted]);
+    setBusVolume('master', muted ? 0 : volumes.master);
+    setBusVolume('music', volumes.music);
+    setBusVolume('sfx', volumes.sfx);
+  }, [muted, volumes]);
+
+  // Auto-layout: recomputed whenever galaxies or their photo counts change
+  const laidOut = useMemo<GalaxyData[]>(() => {
+    const positions = layoutGalaxies(loadedGalaxies.map(g => ({ id: g.id, photoCount: g.photoTotal, position: g.position })));
+    return loadedGalaxies.map(g => ({ ...g, position: positions[g.id] }));
+  }, [loadedGalaxies]);
+
+  // Unsaved style edits are drawn live, on top of the layout
+  const galaxies = useMemo(() =>
+    styleDraft.id ? laidOut.map(g => g.id === styleDraft.id ? { ...g, ...styleDraft.draft } : g) : laidOut
+    , [laidOut, styleDraft]);
+
+  const previewStyle = useCallback((id: string | null, draft: Partial<GalaxyStyle>) => setStyleDraft({ id, draft }), []);
+  const closeEditor = useCallback(() => setEditorOpen(false), []);
+  // A renamed galaxy has a new id and new photo URLs, so its photos are reloaded
+  const saveGalaxy = useCallback((saved: GalaxyConfig, previousId: string) => {
+    if (saved.id === previousId) {
+      setLoadedGalaxies(prev => prev.map(g => g.id === saved.id ? { ...g, ...saved } : g));
+      return;
+    }
+    loadGalaxyPhotos(saved).then(loaded => setLoadedGalaxies(prev => prev.map(g => g.id === previousId ? loaded : g)));
+    setTimeline(null);
+    setGeo(null);
+  }, []);
+
+  const createGalaxy = useCallback((created: GalaxyConfig) => {
+    setLoadedGalaxies(prev => [...prev, { ...created, photos: [], photoTotal: 0, nextCursor: null }].sort((a, b) => a.id.localeCompare(b.id)));
+    setBirths(b => [...b, created.id]);
+    setTimeout(() => setBirths(b => b.filter(id => id !== created.id)), GALAXY_TRANSITION_MS);
+  }, []);
+
+  // The galaxy collapses where it was — into the one that took its photos,
+  // which is reloaded to show them
+  const deleteGalaxy = useCallback((id: string, into: string | null) => {
+    const gone = laidOut.find(g => g.id === id);
+    const target = laidOut.find(g => g.id === into);
+    if (gone) {
+      setCollapsing(c => [...c, { galaxy: gone, into: target?.position ?? null }]);
+      setTimeout(() => setCollapsing(c => c.filter(entry => entry.galaxy.id !== id)), GALAXY_TRANSITION_MS);
+    }
+    setLoadedGalaxies(prev => prev.filter(g => g.id !== id));
+    if (target) {
+      loadGalaxyPhotos(target).then(loaded => setLoadedGalaxies(prev => prev.map(g => g.id === loaded.id ? loaded : g)));
+    }
+    setTimeline(null);
+    setGeo(null);
+  }, [laidOut]);
+
+  const startCardDrag = useCallback((photo: PhotoMetadata, x: number, y: number) => {
+    // A shared album is read-only, so there's nowhere to move photos to
+    if (activeGalaxyId && !share) setCardDrag({ photo, galaxyId: activeGalaxyId, x, y });
+  }, [activeGalaxyId, share]);
+  const endCardDrag = useCallback(() => setCardDrag(null), []);
+
+  // A moved photo leaves its galaxy and joins the end of the other one
+  const movePhoto = useCallback((fromId: string, toId: string, before: PhotoMetadata, after: PhotoMetadata) => {
+    setLoadedGalaxies(prev => prev.map(g => {
+      if (g.id === fromId) return { ...g, photos: g.photos.filter(p => p.id !== before.id), photoTotal: g.photoTotal - 1 };
+      if (g.id === toId) return { ...g, photos: [...g.photos, ...withGalaxyText(g, [after], g.photos.length)], photoTotal: g.photoTotal + 1 };
+      return g;
+    }));
+    setTimeline(null);
+    setGeo(null);
+  }, []);
+
+  const frame = useMemo(() =>
+    universeFrame(galaxies.map(g => ({ position: g.position, photoCount: g.photoTotal })))
+    , [galaxies]);
 
   const activeGalaxy = useMemo(() =>
     galaxies.find((g: GalaxyData) => g.id === activeGalaxyId) || null
@@ -1145,13 +2264,351 @@ export default function GalleryPage() {
     activeGalaxy?.photos.find((p: PhotoMetadata) => p.id === activePhotoId) || null
     , [activeGalaxy, activePhotoId]);
 
+  // Music follows the view: inside a galaxy its soundscape, the drone
+  // everywhere else. Only a different soundscape crossfades.
+  const soundscape = useMemo(() =>
+    (level === 'cluster' || level === 'photo') && activeGalaxy ? soundscapeFor(activeGalaxy) : null
+    , [level, activeGalaxy]);
+  useEffect(() => { playMusic(soundscape); }, [soundscape]);
+  useEffect(() => stopMusic, []);
+
+  // Move the view to a route — the same transitions the Escape handler and
+  // galaxy clicks make. Returns false while the photo it names hasn't
+  // streamed in yet, so a cold deep link can try again on the next page.
+  // Read through a ref: a route can land from a timer set before the last warp
+  const activeGalaxyIdRef = useRef(activeGalaxyId);
+  useEffect(() => { activeGalaxyIdRef.current = activeGalaxyId; }, [activeGalaxyId]);
+
+  const applyRoute = useCallback((route: Route): boolean => {
+    // A link that can't be shown as it stands (a galaxy that's gone, a photo
+    // that isn't there) is rewritten in place when it's the one in the
+    // address bar, so Back doesn't lead to it again
+    const redirect = (to: Route) => {
+      if (routeSearch(readRoute()) !== routeSearch(route)) return;
+      window.history.replaceState(null, '', routeSearch(to) || window.location.pathname);
+    };
+    if (route.view) {
+      setLevel(route.view);
+      setActiveGalaxyId(null);
+      setActivePhotoId(null);
+      return true;
+    }
+    const galaxy = route.galaxy ? galaxies.find(g => g.id === route.galaxy) : undefined;
+    if (!galaxy) {
+      if (route.galaxy) redirect({ galaxy: null, photo: null });
+      setLevel('universe');
+      setActiveGalaxyId(null);
+      setActivePhotoId(null);
+      return true;
+    }
+    if (galaxy.id !== activeGalaxyIdRef.current) setGalaxyLoading(true);
+    setActiveGalaxyId(galaxy.id);
+    const photo = route.photo ? galaxy.photos.find(p => p.filename === route.photo) : undefined;
+    if (photo) {
+      setActivePhotoId(photo.id);
+      setLevel('photo');
+      return true;
+    }
+    setActivePhotoId(null);
+    setLevel('cluster');
+    if (route.photo && galaxy.nextCursor) return false;
+    if (route.photo) redirect({ galaxy: galaxy.id, photo: null });
+    return true;
+  }, [galaxies]);
+
+  // A cold load of a deep link waits here until its galaxy (and photo) exist
+  const pendingRoute = useRef<Route | null>(null);
+  useEffect(() => {
+    const route = readRoute();
+    if (route.galaxy || route.view) pendingRoute.current = route;
+  }, []);
+
+  useEffect(() => {
+    if (!pendingRoute.current || !galaxies.length) return;
+    if (applyRoute(pendingRoute.current)) pendingRoute.current = null;
+  }, [galaxies, applyRoute]);
+
+  // Set for a navigation that should take over the current history entry
+  // instead of adding one, like a slideshow moving on by itself
+  const replaceHistory = useRef(false);
+
+  // Every navigation becomes a history entry...
+  useEffect(() => {
+    if (pendingRoute.current) return;
+    const search = routeSearch({
+      galaxy: level !== 'universe' ? activeGalaxy?.id ?? null : null,
+      photo: level === 'photo' ? activePhoto?.filename ?? null : null,
+      view: level === 'timeline' || level === 'geo' ? level : null,
+    });
+    if (search !== window.location.search) {
+      if (replaceHistory.current) window.history.replaceState(null, '', search || window.location.pathname);
+      else window.history.pushState(null, '', search || window.location.pathname);
+    }
+    replaceHistory.current = false;
+  }, [level, activeGalaxy, activePhoto]);
+
+  // Warp into a galaxy: streaks and loading screen, then the cluster view
+  const warpInto = useCallback((galaxyId: string, then?: () => void) => {
+    setGalaxyLoading(true);
+    setWarpActive(true);
+    setTimeout(() => {
+      setActiveGalaxyId(galaxyId);
+      setActivePhotoId(null);
+      setLevel('cluster');
+      setWarpActive(false);
+      then?.();
+    }, 600);
+  }, []);
+
+  // Out of a photo to its galaxy, or out of anything to the universe
+  const zoomOut = useCallback((to: 'cluster' | 'universe') => {
+    setActivePhotoId(null);
+    setLevel(to);
+    if (to === 'universe') {
+      setActiveGalaxyId(null);
+      setSlideshow(null);
+    }
+  }, []);
+
+  // Search result (or timeline card) -> warp -> cluster -> photo. If the photo
+  // sits on a page that hasn't streamed in yet, the pending-route effect
+  // finishes the trip.
+  const flyTo = useCallback((result: GalaxyPhoto) => {
+    setSearchOpen(false);
+    const route = { galaxy: result.galaxyId, photo: result.photo.filename };
+    const land = () => { pendingRoute.current = applyRoute(route) ? null : route; };
+    if (level !== 'universe' && activeGalaxyId === result.galaxyId) { land(); return; }
+    playWarpSound();
+    warpInto(result.galaxyId, () => setTimeout(land, 700));
+  }, [level, activeGalaxyId, applyRoute, warpInto]);
+
+  // Slideshow: after `interval` seconds the next photo opens — or, at the end
+  // of a galaxy, the warp to the next one. Landing in a galaxy counts as a
+  // slide too, so the cluster shows for a beat before its first photo.
+  const slideHistory = useRef<SlideHistory>({ photos: [], galaxies: [] });
+
+  const showSlide = useCallback((photoId: string) => {
+    const history = slideHistory.current;
+    if (history.photos.includes(photoId)) history.photos = []; // a photo shown before starts a new round
+    history.photos.push(photoId);
+    setActivePhotoId(photoId);
+    setLevel('photo');
+  }, []);
+
+  useEffect(() => {
+    if (slideshow !== 'playing' || !activeGalaxy || (level !== 'cluster' && level !== 'photo')) return;
+    // Slides replace each other in history, so Back leaves the slideshow
+    const advance = (photoId: string) => {
+      replaceHistory.current = true;
+      showSlide(photoId);
+    };
+    const timer = setTimeout(() => {
+      if (level === 'cluster' || !activePhotoId) {
+        const first = firstSlide(activeGalaxy, slideshowOptions);
+        if (first) advance(first);
+        else setSlideshow(null);
+        return;
+      }
+      const next = nextSlide(galaxies, activeGalaxy.id, activePhotoId, slideHistory.current, slideshowOptions);
+      if (next.type === 'photo') {
+        advance(next.photoId);
+      } else if (next.type === 'galaxy') {
+        slideHistory.current = { photos: [], galaxies: [...slideHistory.current.galaxies, next.galaxyId] };
+        playWarpSound();
+        warpInto(next.galaxyId, () => { replaceHistory.current = true; });
+      } else if (next.type === 'end') {
+        setSlideshow(null);
+      }
+      // 'wait': this runs again when the next page of photos arrives
+    }, slideshowOptions.interval * 1000);
+    return () => clearTimeout(timer);
+  }, [slideshow, level, activeGalaxy, activePhotoId, galaxies, slideshowOptions, showSlide, warpInto]);
+
+  // Starting in the cluster view opens the first photo right away
+  const playSlideshow = useCallback(() => {
+    if (!slideshow) {
+      slideHistory.current = { photos: activePhotoId ? [activePhotoId] : [], galaxies: activeGalaxyId ? [activeGalaxyId] : [] };
+    }
+    setSlideshow('playing');
+    if (level === 'cluster' && activeGalaxy) {
+      const first = firstSlide(activeGalaxy, slideshowOptions);
+      if (first) showSlide(first);
+    }
+  }, [slideshow, level, activeGalaxy, activeGalaxyId, activePhotoId, slideshowOptions, showSlide]);
+
+  // Space plays and pauses; any other interaction pauses; Escape or
+  // Back/Forward stops. The bar's own controls don't count.
+  useEffect(() => {
+    if (level !== 'cluster' && level !== 'photo') return;
+    const fromBar = (e: Event) => e.target instanceof Element && e.target.closest('[data-slideshow-bar]') !== null;
+    const pause = (e: Event) => {
+      if (slideshow === 'playing' && !fromBar(e)) setSlideshow('paused');
+    };
+    const onKeyDown = (e: KeyboardEvent) => {
+      const typing = e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement || e.target instanceof HTMLSelectElement;
+      if (typing || fromBar(e)) return;
+      if (e.key === ' ') {
+        e.preventDefault();
+        if (slideshow === 'playing') setSlideshow('paused');
+        else playSlideshow();
+      } else if (e.key === 'Escape') {
+        setSlideshow(null);
+      } else {
+        pause(e);
+      }
+    };
+    const stop = () => setSlideshow(null);
+    window.addEventListener('pointerdown', pause);
+    window.addEventListener('wheel', pause);
+    window.addEventListener('keydown', onKeyDown);
+    window.addEventListener('popstate', stop);
+    return () => {
+      window.removeEventListener('pointerdown', pause);
+      window.removeEventListener('wheel', pause);
+      window.removeEventListener('keydown', onKeyDown);
+      window.removeEventListener('popstate', stop);
+    };
+  }, [level, slideshow, playSlideshow]);
+
+  // Flights: the canvas's state, for reading the camera and stepping frames
+  const three = useRef<RootState['get'] | null>(null);
+  const flightAbort = useRef<AbortController | null>(null);
+
+  // VR: the same canvas presented to a headset, or to the WebXR emulator
+  const [xrSupported, setXRSupported] = useState(false);
+  const [xrViewer, setXRViewer] = useState<XRViewer | null>(null);
+  useEffect(() => { isXRSupported().then(setXRSupported); }, []);
+
+  const toggleXR = useCallback(async () => {
+    const gl = three.current?.().gl;
+    if (!gl) return;
+    if (xrViewer) { await gl.xr.getSession()?.end(); return; }
+    try {
+      setXRViewer(await startXRSession(gl.xr));
+      gl.xr.getSession()?.addEventListener('end', () => setXRViewer(null), { once: true });
+    } catch {
+      // Declined, or no headset after all: the desktop view carries on
+    }
+  }, [xrViewer]);
+
+  const captureKeyframe = useCallback((): Omit<FlightKeyframe, 'time'> | null => {
+    const controls = three.current?.().controls as unknown as FlightControls | null;
+    if (!controls) return null;
+    return {
+      position: controls.getPosition(new THREE.Vector3()).toArray(),
+      target: controls.getTarget(new THREE.Vector3()).toArray(),
+      view: {
+        galaxy: level === 'cluster' || level === 'photo' ? activeGalaxy?.id ?? null : null,
+        photo: level === 'photo' ? activePhoto?.filename ?? null : null,
+        view: level === 'timeline' || level === 'geo' ? level : null,
+      },
+    };
+  }, [level, activeGalaxy, activePhoto]);
+
+  const showFlightView = useCallback((view: FlightView) => {
+    pendingRoute.current = applyRoute(view) ? null : view;
+  }, [applyRoute]);
+
+  // The view changes first; the camera moves once the rig has set up for it
+  const jumpToKeyframe = useCallback((keyframe: FlightKeyframe) => {
+    showFlightView(keyframe.view);
+    setTimeout(() => {
+      const controls = three.current?.().controls as unknown as FlightControls | null;
+      controls?.setLookAt(...keyframe.position, ...keyframe.target, true);
+    });
+  }, [showFlightView]);
+
+  const previewFlight = useCallback(() => {
+    setSlideshow(null);
+    setFlightPlayback({ mode: 'preview' });
+  }, []);
+  const endFlight = useCallback(() => setFlightPlayback(p => p?.mode === 'preview' ? null : p), []);
+  const stopFlight = useCallback(() => {
+    flightAbort.current?.abort();
+    setFlightPlayback(null);
+  }, []);
+
+  // Export: the render loop stops and each frame is drawn on its own, at its
+  // exact time on the flight — a slow frame doesn't skip ahead
+  const exportFlightFrames = useCallback(async (format: FlightExportFormat, fps: number) => {
+    const state = three.current?.();
+    if (!state) return;
+    const frames = Math.round(flightDuration(flightPath) * fps) + 1;
+    const abort = new AbortController();
+    flightAbort.current = abort;
+    setSlideshow(null);
+    state.setFrameloop('never');
+    const base = state.clock.elapsedTime + 1 / fps;
+    setFlightPlayback({ mode: 'export', done: 0, total: frames });
+    try {
+      const blob = await exportFlight({
+        canvas: state.gl.domElement,
+        frames,
+        fps,
+        format,
+        signal: abort.signal,
+        renderFrame: async (i) => {
+          // Lets React commit a view change from the frame before
+          await new Promise(requestAnimationFrame);
+          state.advance(base + i / fps);
+        },
+        onProgress: done => setFlightPlayback({ mode: 'export', done, total: frames }),
+      });
+      downloadBlob(blob, format === 'png' ? 'flight-frames.zip' : 'flight.webm');
+    } finally {
+      state.setFrameloop('always');
+      setFlightPlayback(null);
+      flightAbort.current = null;
+    }
+  }, [flightPath]);
+
+  // "/" or Ctrl/Cmd+K opens search (unless already typing somewhere)
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      const typing = e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement;
+      if ((e.key === '/' && !typing) || (e.key.toLowerCase() === 'k' && (e.ctrlKey || e.metaKey))) {
+        e.preventDefault();
+        setSearchOpen(true);
+      }
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, []);
+
+  // ...and back/forward replays them the way they were made: a different
+  // galaxy is warped into, like clicking it (landing on the photo after, as
+  // search does), and leaving a photo or a galaxy zooms out like Back does
+  useEffect(() => {
+    const onPopState = () => {
+      const route = readRoute();
+      const land = () => { pendingRoute.current = applyRoute(route) ? null : route; };
+      const galaxy = route.galaxy && !route.view ? galaxies.find(g => g.id === route.galaxy) : undefined;
+      const inGalaxy = (level === 'cluster' || level === 'photo') && galaxy?.id === activeGalaxyIdRef.current;
+      if (galaxy && !inGalaxy) {
+        // Pending until it lands, so the warp doesn't push history of its own
+        pendingRoute.current = route;
+        playWarpSound();
+        warpInto(galaxy.id, route.photo ? () => setTimeout(land, 700) : land);
+      } else if (inGalaxy && level === 'photo' && !route.photo) {
+        zoomOut('cluster');
+      } else if (level !== 'universe' && !route.galaxy && !route.view) {
+        zoomOut('universe');
+      } else {
+        land();
+      }
+    };
+    window.addEventListener('popstate', onPopState);
+    return () => window.removeEventListener('popstate', onPopState);
+  }, [applyRoute, galaxies, level, warpInto, zoomOut]);
+
 
   return (
     <div style={{ width: "100vw", height: "100vh", backgroundColor: "#020205", overflow: "hidden", position: "relative" }} className="font-[family-name:var(--font-space)]">
       <Canvas
         camera={{ position: [0, 0, 40], fov: 45 }}
-        dpr={[1, 1.5]}
+        dpr={[1, Math.min(settings.maxDpr, quality.maxDpr)]}
         performance={{ min: 0.5 }}
+        onCreated={(state) => { three.current = state.get; }}
       >
         <Scene
           level={level}
@@ -1161,23 +2618,70 @@ export default function GalleryPage() {
           activeGalaxy={activeGalaxy}
           activePhotoId={activePhotoId}
           setActivePhotoId={setActivePhotoId}
-          onGalaxyEnter={() => setGalaxyLoading(true)}
+          onGalaxyClick={(galaxy) => warpInto(galaxy.id)}
+          onZoomOut={zoomOut}
+          warpActive={warpActive}
           onClusterReady={() => setGalaxyLoading(false)}
           galaxies={galaxies}
+          frame={frame}
+          timeline={timeline ?? []}
+          timelineScrub={timelineScrub}
+          setTimelineScrub={setTimelineScrub}
+          onEntryPick={flyTo}
+          geo={visibleGeo}
+          globeFocus={globeFocus}
+          arrivals={arrivals}
+          styledGalaxyId={level === 'universe' && editorOpen ? styleDraft.id : null}
+          births={births}
+          collapsing={collapsing}
+          onCardDrag={startCardDrag}
+          tour={slideshow === 'playing' && slideshowOptions.tour}
+          flight={flightPlayback ? flightPath : null}
+          onFlightView={showFlightView}
+          onFlightEnd={endFlight}
+          stars={settings.stars}
+          postProcessing={settings.postProcessing}
+          particleDensity={settings.particleDensity}
+          quality={quality}
+          reducedMotion={reducedMotion}
+          focusTarget={focusTarget}
+          onFocusTarget={setFocusTarget}
+          xrViewer={xrViewer}
         />
+        {flightPlayback?.mode !== 'export' && (
+          <PerformanceGovernor
+            tier={autoTier}
+            adapt={settings.quality === 'auto'}
+            onTier={setAutoTier}
+            onStats={settings.showStats ? setFrameStats : null}
+          />
+        )}
       </Canvas>
 
+      <AccessibleGallery
+        level={level}
+        galaxies={galaxies}
+        activeGalaxy={activeGalaxy}
+        activePhotoId={activePhotoId}
+        onOpenGalaxy={(id) => { playWarpSound(); warpInto(id); }}
+        onOpenPhoto={(id) => { playClickSound(); setActivePhotoId(id); setLevel('photo'); }}
+        onFocusChange={setFocusTarget}
+      />
+
       {/* ── Fixed HTML Overlays (outside Canvas, always visible) ── */}
 
       {/* Sound toggle — top right */}
       <button
-        onClick={() => setMuted(m => !m)}
+        onClick={() => updateSettings({ muted: !muted })}
         style={{ position: 'fixed', top: 28, right: 28, zIndex: 100 }}
         className="w-10 h-10 flex items-center justify-center rounded-full bg-black/40 backdrop-blur-xl border border-white/10 hover:border-white/30 text-white transition-all shadow-xl"
         title={muted ? 'Unmute' : 'Mute'}
       >
         <span style={{ fontSize: 16 }}>{muted ? '🔇' : '🔊'}</span>
       </button>
+      <AccountPanel />
+      <SettingsPanel settings={settings} systemReducedMotion={systemReducedMotion} autoTier={QUALITY_TIERS[autoTier].name} onChange={updateSettings} />
+      {settings.showStats && <PerformanceHud stats={frameStats} tier={quality.name} auto={settings.quality === 'auto'} />}
 
       {/* Galaxy name header — shown when inside a galaxy */}
       {(level === 'cluster' || level === 'photo') && activeGalaxy && (
@@ -1185,7 +2689,58 @@ export default function GalleryPage() {
           <div className="flex items-center gap-2 px-5 py-2 bg-black/40 backdrop-blur-xl border border-white/10 rounded-full shadow-xl">
             <div style={{ width: 8, height: 8, borderRadius: '50%', background: activeGalaxy.color, boxShadow: `0 0 8px ${activeGalaxy.color}` }} />
             <span className="text-white text-sm font-medium tracking-wide">{activeGalaxy.name}</span>
-            <span className="text-white/30 text-xs">{activeGalaxy.photos.length} memories</span>
+            <span className="text-white/30 text-xs">{activeGalaxy.photoTotal} memories</span>
+          </div>
+        </div>
+      )}
+
+      {/* Timeline and globe entries — top left, where the back button sits elsewhere */}
+      {level === 'universe' && (
+        <div style={{ position: 'fixed', top: 32, left: 32, zIndex: 100 }} className="flex gap-2">
+          <button
+            onClick={() => setLevel('timeline')}
+            className="px-5 py-2.5 rounded-full bg-white/10 hover:bg-white/20 text-white text-sm backdrop-blur-md border border-white/20 transition-all font-medium shadow-lg"
+          >
+            🕰 Timeline
+          </button>
+          <button
+            onClick={() => setLevel('geo')}
+            className="px-5 py-2.5 rounded-full bg-white/10 hover:bg-white/20 text-white text-sm backdrop-blur-md border border-white/20 transition-all font-medium shadow-lg"
+          >
+            🌍 Globe
+          </button>
+          {!share && (
+            <button
+              onClick={() => setEditorOpen(o => !o)}
+              className="px-5 py-2.5 rounded-full bg-white/10 hover:bg-white/20 text-white text-sm backdrop-blur-md border border-white/20 transition-all font-medium shadow-lg"
+            >
+              🎨 Galaxies
+            </button>
+          )}
+        </div>
+      )}
+
+      {/* Shared album — top centre, where the galaxy name sits inside one */}
+      {(share || shareProblem) && level !== 'cluster' && level !== 'photo' && (
+        <div style={{ position: 'fixed', top: 28, left: '50%', transform: 'translateX(-50%)', zIndex: 100 }}>
+          <div className="flex items-center gap-3 px-5 py-2 bg-black/40 backdrop-blur-xl border border-white/10 rounded-full shadow-xl text-sm">
+            {share ? (
+              <>
+                <span className="text-white font-medium tracking-wide">🔗 {share.label || 'Shared with you'}</span>
+                {share.expiresAt && <span className="text-white/30 text-xs">until {new Date(share.expiresAt).toLocaleDateString()}</span>}
+                <button
+                  onClick={() => leaveShare().then(() => window.location.reload())}
+                  className="text-white/50 hover:text-white text-xs"
+                >
+                  Leave
+                </button>
+              </>
+            ) : (
+              <>
+                <span className="text-red-200/80">{shareProblem}</span>
+                <button onClick={() => setShareProblem(null)} className="text-white/40 hover:text-white text-xs" title="Dismiss">✕</button>
+              </>
+            )}
           </div>
         </div>
       )}
@@ -1193,15 +2748,7 @@ export default function GalleryPage() {
       {/* Back button */}
       {level !== 'universe' && (
         <button
-          onClick={() => {
-            if (level === 'photo') {
-              setLevel('cluster');
-              setActivePhotoId(null);
-            } else {
-              setLevel('universe');
-              setActiveGalaxyId(null);
-            }
-          }}
+          onClick={() => zoomOut(level === 'photo' ? 'cluster' : 'universe')}
           style={{ position: 'fixed', top: 32, left: 32, zIndex: 100 }}
           className="px-5 py-2.5 rounded-full bg-white/10 hover:bg-white/20 text-white text-sm backdrop-blur-md border border-white/20 transition-all font-medium shadow-lg"
         >
@@ -1219,6 +2766,22 @@ export default function GalleryPage() {
             <h2 className="text-base font-semibold text-white leading-snug mb-2">{activePhoto.title}</h2>
             <div className="h-px w-full bg-gradient-to-r from-white/15 to-transparent mb-3" />
             <p className="text-zinc-400 text-xs leading-relaxed">{activePhoto.description}</p>
+            {activePhoto.people.length > 0 && (
+              <p className="text-zinc-300 text-[11px] mt-2">with {activePhoto.people.join(', ')}</p>
+            )}
+            {activePhoto.tags.length > 0 && (
+              <div className="flex flex-wrap gap-1 mt-2">
+                {activePhoto.tags.map(tag => (
+                  <span key={tag} className="px-2 py-0.5 rounded-full text-[9px] tracking-wide text-white/70 border border-white/15" style={{ borderColor: `${activeGalaxy?.color}55` }}>#{tag}</span>
+                ))}
+              </div>
+            )}
+            {activePhoto.exif?.camera && (
+              <div className="mt-3 pt-3 border-t border-white/10 text-[10px] text-zinc-500 tracking-wide" style={{ fontFamily: 'monospace' }}>
+                <p className="text-zinc-300">📷 {activePhoto.exif.camera}</p>
+                {formatExposure(activePhoto.exif) && <p className="mt-0.5">{formatExposure(activePhoto.exif)}</p>}
+              </div>
+            )}
           </div>
 
           {/* Prev / Next navigation */}
@@ -1248,6 +2811,146 @@ export default function GalleryPage() {
           )}
         </div>
       )}
+
+      {/* Slideshow — bottom centre, in a galaxy */}
+      {(level === 'cluster' || level === 'photo') && activeGalaxy && (
+        <SlideshowBar
+          state={slideshow}
+          options={slideshowOptions}
+          onOptionsChange={setSlideshowOptions}
+          onPlay={playSlideshow}
+          onPause={() => setSlideshow('paused')}
+          onStop={() => setSlideshow(null)}
+        />
+      )}
+
+      {/* Timeline scrubber — bottom centre */}
+      {level === 'timeline' && timeline && (
+        <div style={{ position: 'fixed', bottom: 40, left: '50%', transform: 'translateX(-50%)', width: 'min(560px, 80vw)', zIndex: 100 }}>
+          <div className="flex items-center gap-4 px-5 py-3 bg-black/40 backdrop-blur-xl border border-white/10 rounded-full shadow-xl">
+            {timeline.length > 0 ? (
+              <>
+                <span className="text-white/40 text-[10px] tracking-widest uppercase whitespace-nowrap" style={{ fontFamily: 'monospace' }}>
+                  {formatMonth(timeline[0].photo.exif!.takenAt!)}
+                </span>
+                <input
+                  type="range"
+                  min={0}
+                  max={timeline.length - 1}
+                  value={Math.min(timelineScrub, timeline.length - 1)}
+                  onChange={(e) => setTimelineScrub(Number(e.target.value))}
+                  className="flex-1 accent-white"
+                  aria-label="Scrub through time"
+                />
+                <span className="text-white text-xs tracking-widest uppercase whitespace-nowrap" style={{ fontFamily: 'monospace', minWidth: 72, textAlign: 'right' }}>
+                  {formatMonth(timeline[Math.min(timelineScrub, timeline.length - 1)].photo.exif!.takenAt!)}
+                </span>
+              </>
+            ) : (
+              <span className="text-white/50 text-xs">No photos with a capture date yet</span>
+            )}
+          </div>
+        </div>
+      )}
+
+      {/* Globe layers — bottom centre, one chip per galaxy */}
+      {level === 'geo' && geo && (
+        <div style={{ position: 'fixed', bottom: 40, left: '50%', transform: 'translateX(-50%)', maxWidth: '90vw', zIndex: 100 }}>
+          <div className="flex flex-wrap justify-center gap-2">
+            {geoLayers.length > 0 ? geoLayers.map(layer => {
+              const hidden = hiddenLayers.includes(layer.id);
+              return (
+                <button
+                  key={layer.id}
+                  onClick={() => setHiddenLayers(h => hidden ? h.filter(id => id !== layer.id) : [...h, layer.id])}
+                  aria-pressed={!hidden}
+                  className={`flex items-center gap-2 px-4 py-2 rounded-full bg-black/40 backdrop-blur-xl border text-sm transition-all shadow-xl ${hidden ? 'border-white/5 text-white/30' : 'border-white/20 text-white'}`}
+                >
+                  <span style={{ width: 8, height: 8, borderRadius: '50%', background: hidden ? 'transparent' : layer.color, border: `1px solid ${layer.color}` }} />
+                  {layer.name}
+                  <span className="text-white/30 text-xs">{layer.count}</span>
+                </button>
+              );
+            }) : (
+              <span className="px-5 py-2 rounded-full bg-black/40 backdrop-blur-xl border border-white/10 text-white/50 text-xs">No photos with GPS coordinates yet</span>
+            )}
+          </div>
+        </div>
+      )}
+
+      {/* Search — top right, next to the sound toggle */}
+      <button
+        onClick={() => setSearchOpen(true)}
+        style={{ position: 'fixed', top: 28, right: 76, zIndex: 100 }}
+        className="w-10 h-10 flex items-center justify-center rounded-full bg-black/40 backdrop-blur-xl border border-white/10 hover:border-white/30 text-white transition-all shadow-xl"
+        title="Search memories (/)"
+      >
+        <span style={{ fontSize: 15 }}>🔍</span>
+      </button>
+      {/* Share — the owner's; a shared album can't be passed on */}
+      {!share && (
+        <button
+          onClick={() => setShareOpen(o => !o)}
+          style={{ position: 'fixed', top: 28, right: 268, zIndex: 100 }}
+          className="w-10 h-10 flex items-center justify-center rounded-full bg-black/40 backdrop-blur-xl border border-white/10 hover:border-white/30 text-white transition-all shadow-xl"
+          title="Share a read-only link"
+        >
+          <span style={{ fontSize: 15 }}>🔗</span>
+        </button>
+      )}
+      {shareOpen && !share && (
+        <SharePanel
+          galaxies={loadedGalaxies}
+          activeGalaxyId={activeGalaxyId}
+          photo={activeGalaxy && activePhoto ? { folder: activeGalaxy.folder, filename: activePhoto.filename, title: activePhoto.title } : null}
+          onClose={() => setShareOpen(false)}
+        />
+      )}
+      {/* VR — only where the browser can start a session */}
+      {xrSupported && (
+        <button
+          onClick={toggleXR}
+          style={{ position: 'fixed', top: 28, right: share ? 268 : 316, zIndex: 100 }}
+          className="w-10 h-10 flex items-center justify-center rounded-full bg-black/40 backdrop-blur-xl border border-white/10 hover:border-white/30 text-white transition-all shadow-xl"
+          title={xrViewer ? 'Leave VR' : 'Explore in VR'}
+        >
+          <span style={{ fontSize: 15 }}>🥽</span>
+        </button>
+      )}
+      {/* Flight recorder — next to search */}
+      <button
+        onClick={() => setFlightOpen(o => !o)}
+        style={{ position: 'fixed', top: 28, right: 124, zIndex: 100 }}
+        className="w-10 h-10 flex items-center justify-center rounded-full bg-black/40 backdrop-blur-xl border border-white/10 hover:border-white/30 text-white transition-all shadow-xl"
+        title="Record a flight"
+      >
+        <span style={{ fontSize: 15 }}>🎬</span>
+      </button>
+      <FlightRecorder
+        open={flightOpen}
+        path={flightPath}
+        playback={flightPlayback}
+        onChange={setFlightPath}
+        onCapture={captureKeyframe}
+        onJump={jumpToKeyframe}
+        onPreview={previewFlight}
+        onExport={exportFlightFrames}
+        onStop={stopFlight}
+        onClose={() => setFlightOpen(false)}
+      />
+      <SearchOverlay open={searchOpen} onClose={() => setSearchOpen(false)} onPick={flyTo} />
+      <GalaxyEditor
+        open={editorOpen && level === 'universe'}
+        galaxies={loadedGalaxies}
+        onClose={closeEditor}
+        onPreview={previewStyle}
+        onSaved={saveGalaxy}
+        onCreated={createGalaxy}
+        onDeleted={deleteGalaxy}
+      />
+      <PhotoMover drag={cardDrag} galaxies={loadedGalaxies} onEnd={endCardDrag} onMoved={movePhoto} />
+      {!share && <UploadDropZone galaxies={loadedGalaxies} activeGalaxyId={activeGalaxyId} onUploaded={addUploadedPhoto} />}
+
       {/* Loading Screen — shows when clicking into a galaxy while photos load */}
       <LoadingScreen visible={galaxyLoading} />
     </div>
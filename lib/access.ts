@@ -0,0 +1,29 @@
+import { requestUser, type SessionUser } from './auth';
+import { requestShare, sharesGalaxy, sharesPhoto, type Share } from './shares';
+import type { GalaxyConfig } from './types';
+
+// Who is asking, as far as reading the library goes: whoever is signed in,
+// and the share link they came through. A share link narrows the view to
+// what was shared, whoever is signed in; otherwise each galaxy's
+// `visibility` decides.
+export interface Viewer {
+  user: SessionUser | null;
+  share: Share | null;
+}
+
+export const viewerOf = (req: Request): Viewer => ({ user: requestUser(req), share: requestShare(req) });
+
+export function canSeeGalaxy(viewer: Viewer, galaxy: GalaxyConfig): boolean {
+  if (viewer.share) return sharesGalaxy(viewer.share, galaxy.folder);
+  if (galaxy.visibility === 'public') return true;
+  if (galaxy.visibility === 'family') return !!viewer.user;
+  return viewer.user?.role === 'owner';
+}
+
+export const canSeePhoto = (viewer: Viewer, galaxy: GalaxyConfig, filename: string) =>
+  viewer.share ? sharesPhoto(viewer.share, galaxy.folder, filename) : canSeeGalaxy(viewer, galaxy);
+
+// Whether a response about `galaxy` may be kept by shared caches; anything
+// that took a sign-in or a link to see stays in the browser
+export const cacheablePublicly = (viewer: Viewer, galaxy: GalaxyConfig) =>
+  !viewer.share && galaxy.visibility === 'public';
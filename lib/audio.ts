@@ -0,0 +1,260 @@
+// Web Audio engine. Everything runs through one graph:
+//
+//   SFX voices   ──> sfx bus   ─┐
+//   music voices ──> music bus ─┴─> master bus ──> speakers
+//
+// Music is one soundscape at a time — the universe drone, a galaxy's
+// generated soundscape or its own audio file — and changing it crossfades.
+// Browser-only; every call is a no-op where Web Audio isn't available.
+import { seededRandom } from './random';
+import type { Soundscape } from './soundscape';
+
+export type AudioBus = 'master' | 'music' | 'sfx';
+export type BusVolumes = Record<AudioBus, number>; // 0-1 each
+
+export const DEFAULT_VOLUMES: BusVolumes = { master: 1, music: 1, sfx: 1 };
+
+const CROSSFADE = 3; // seconds
+
+interface AudioGraph {
+  ctx: AudioContext;
+  buses: Record<AudioBus, GainNode>;
+}
+
+let _graph: AudioGraph | null = null;
+
+function createGraph(): AudioGraph | null {
+  if (typeof window === 'undefined') return null;
+  try {
+    const ctx = new (window.AudioContext || (window as unknown as { webkitAudioContext: typeof AudioContext }).webkitAudioContext)();
+    const master = ctx.createGain();
+    master.connect(ctx.destination);
+    const music = ctx.createGain();
+    const sfx = ctx.createGain();
+    music.connect(master);
+    sfx.connect(master);
+    return { ctx, buses: { master, music, sfx } };
+  } catch { return null; }
+}
+
+// Created on first use; browsers keep it suspended until the user has
+// interacted with the page, so every sound asks to resume it
+function getGraph(): AudioGraph | null {
+  if (!_graph) _graph = createGraph();
+  _graph?.ctx.resume().catch(() => undefined);
+  return _graph;
+}
+
+export function setBusVolume(bus: AudioBus, volume: number) {
+  const graph = getGraph();
+  if (!graph) return;
+  graph.buses[bus].gain.setTargetAtTime(volume, graph.ctx.currentTime, 0.05);
+}
+
+// --- SFX ---
+
+export function playHoverHum(start: boolean) {
+  const graph = getGraph();
+  if (!graph) return undefined;
+  const { ctx, buses } = graph;
+  try {
+    const osc = ctx.createOscillator();
+    const gain = ctx.createGain();
+    osc.type = 'sine';
+    osc.frequency.value = 180;
+    gain.gain.setValueAtTime(0, ctx.currentTime);
+    gain.gain.linearRampToValueAtTime(start ? 0.05 : 0, ctx.currentTime + 0.15);
+    osc.connect(gain); gain.connect(buses.sfx);
+    osc.start();
+    if (!start) { gain.gain.linearRampToValueAtTime(0, ctx.currentTime + 0.3); osc.stop(ctx.currentTime + 0.35); }
+    return { stop: () => { gain.gain.setTargetAtTime(0, ctx.currentTime, 0.1); osc.stop(ctx.currentTime + 0.2); } };
+  } catch { return undefined; }
+}
+
+export function playWarpSound() {
+  const graph = getGraph();
+  if (!graph) return;
+  const { ctx, buses } = graph;
+  try {
+    // Whoosh: freq sweep down
+    const osc = ctx.createOscillator();
+    const gain = ctx.createGain();
+    osc.type = 'sawtooth';
+    osc.frequency.setValueAtTime(800, ctx.currentTime);
+    osc.frequency.exponentialRampToValueAtTime(100, ctx.currentTime + 0.7);
+    gain.gain.setValueAtTime(0.15, ctx.currentTime);
+    gain.gain.exponentialRampToValueAtTime(0.001, ctx.currentTime + 0.7);
+    // Low pass to soften
+    const filter = ctx.createBiquadFilter();
+    filter.type = 'lowpass'; filter.frequency.value = 1200;
+    osc.connect(filter); filter.connect(gain); gain.connect(buses.sfx);
+    osc.start(); osc.stop(ctx.currentTime + 0.75);
+  } catch { }
+}
+
+export function playClickSound() {
+  const graph = getGraph();
+  if (!graph) return;
+  const { ctx, buses } = graph;
+  try {
+    const osc = ctx.createOscillator();
+    const gain = ctx.createGain();
+    osc.type = 'sine';
+    osc.frequency.setValueAtTime(600, ctx.currentTime);
+    osc.frequency.exponentialRampToValueAtTime(300, ctx.currentTime + 0.12);
+    gain.gain.setValueAtTime(0.12, ctx.currentTime);
+    gain.gain.exponentialRampToValueAtTime(0.001, ctx.currentTime + 0.12);
+    osc.connect(gain); gain.connect(buses.sfx);
+    osc.start(); osc.stop(ctx.currentTime + 0.15);
+  } catch { }
+}
+
+// --- Music ---
+
+// A soundscape playing into `out`; stop() is called once it has faded out
+interface Voice {
+  stop: () => void;
+}
+
+// The universe: detuned sine oscillators for a space atmosphere hum
+function droneVoice(ctx: AudioContext, out: GainNode): Voice {
+  const level = ctx.createGain();
+  level.gain.value = 0.06;
+  level.connect(out);
+  const oscs = [55, 110.2, 165.5, 82.4].map(f => {
+    const osc = ctx.createOscillator();
+    const g = ctx.createGain();
+    osc.type = 'sine';
+    osc.frequency.value = f;
+    g.gain.value = f === 55 ? 1 : 0.4;
+    osc.connect(g); g.connect(level);
+    osc.start();
+    return osc;
+  });
+  return { stop: () => oscs.forEach(o => o.stop()) };
+}
+
+// A galaxy: a low pad on the root and fifth, and a melody wandering the
+// mode one step at a time, echoing. Notes are scheduled a little ahead on
+// the audio clock so timers firing late don't make them stumble.
+function generatedVoice(ctx: AudioContext, out: GainNode, scape: Soundscape): Voice {
+  const tone = ctx.createBiquadFilter();
+  tone.type = 'lowpass';
+  tone.frequency.value = scape.brightness;
+  tone.connect(out);
+
+  const beat = 60 / scape.tempo;
+  const echo = ctx.createDelay(2);
+  const feedback = ctx.createGain();
+  echo.delayTime.value = beat * 0.75;
+  feedback.gain.value = scape.echo;
+  echo.connect(feedback); feedback.connect(echo); echo.connect(tone);
+
+  const pad = ctx.createGain();
+  pad.gain.value = 0.025;
+  pad.connect(tone);
+  const fifth = scape.scale[4] ?? 7;
+  const padOscs = [0, fifth, 12].flatMap(semitones => [-5, 5].map(cents => {
+    const osc = ctx.createOscillator();
+    osc.type = 'triangle';
+    osc.frequency.value = (scape.root / 2) * 2 ** (semitones / 12);
+    osc.detune.value = cents;
+    osc.connect(pad);
+    osc.start();
+    return osc;
+  }));
+
+  const random = seededRandom(scape.seed);
+  const step = (beat * 4) / scape.notesPerBar;
+  const degrees = scape.scale.length * 2; // two octaves
+  let degree = 0;
+  let next = ctx.currentTime + 0.1;
+  const note = (at: number) => {
+    degree = Math.min(degrees - 1, Math.max(0, degree + Math.floor(random() * 5) - 2));
+    if (random() < 0.2) return; // a rest now and then
+    const semitones = scape.scale[degree % scape.scale.length] + 12 * Math.floor(degree / scape.scale.length);
+    const osc = ctx.createOscillator();
+    const env = ctx.createGain();
+    osc.type = 'sine';
+    osc.frequency.value = scape.root * 2 * 2 ** (semitones / 12);
+    env.gain.setValueAtTime(0, at);
+    env.gain.linearRampToValueAtTime(0.05, at + 0.02);
+    env.gain.exponentialRampToValueAtTime(0.001, at + step * 1.8);
+    osc.connect(env); env.connect(tone); env.connect(echo);
+    osc.start(at);
+    osc.stop(at + step * 1.8 + 0.05);
+  };
+  const timer = setInterval(() => {
+    for (; next < ctx.currentTime + 0.3; next += step) note(next);
+  }, 100);
+
+  return {
+    stop: () => {
+      clearInterval(timer);
+      padOscs.forEach(o => o.stop());
+    },
+  };
+}
+
+// A galaxy's own music, looped. Falls back to the generated soundscape if
+// the file can't be played.
+function fileVoice(ctx: AudioContext, out: GainNode, scape: Soundscape): Voice {
+  const audio = new Audio(scape.file);
+  audio.loop = true;
+  const source = ctx.createMediaElementSource(audio);
+  source.connect(out);
+  let fallback: Voice | null = null;
+  let stopped = false;
+  const fallBack = () => { if (!stopped) fallback ??= generatedVoice(ctx, out, scape); };
+  audio.addEventListener('error', fallBack, { once: true });
+  const retry = () => { if (!stopped) audio.play().catch(() => undefined); };
+  audio.play().catch(err => {
+    // Not allowed before the user has interacted with the page: try again then
+    if (stopped) return;
+    if ((err as Error).name === 'NotAllowedError') window.addEventListener('pointerdown', retry, { once: true });
+    else fallBack();
+  });
+  return {
+    stop: () => {
+      stopped = true;
+      window.removeEventListener('pointerdown', retry);
+      audio.pause();
+      source.disconnect();
+      fallback?.stop();
+    },
+  };
+}
+
+let _music: { key: string; gain: GainNode; voice: Voice } | null = null;
+
+// Crossfades to `scape`, or to the universe drone for null. Asking for what
+// is already playing changes nothing.
+export function playMusic(scape: Soundscape | null) {
+  const graph = getGraph();
+  const key = scape?.key ?? 'universe';
+  if (!graph || _music?.key === key) return;
+  const { ctx, buses } = graph;
+  stopMusic();
+  try {
+    const gain = ctx.createGain();
+    gain.gain.setValueAtTime(0, ctx.currentTime);
+    gain.gain.linearRampToValueAtTime(1, ctx.currentTime + CROSSFADE);
+    gain.connect(buses.music);
+    const voice = !scape ? droneVoice(ctx, gain) : scape.file ? fileVoice(ctx, gain, scape) : generatedVoice(ctx, gain, scape);
+    _music = { key, gain, voice };
+  } catch { }
+}
+
+export function stopMusic() {
+  const graph = getGraph();
+  if (!graph || !_music) return;
+  const { gain, voice } = _music;
+  _music = null;
+  gain.gain.cancelScheduledValues(graph.ctx.currentTime);
+  gain.gain.setValueAtTime(gain.gain.value, graph.ctx.currentTime);
+  gain.gain.linearRampToValueAtTime(0, graph.ctx.currentTime + CROSSFADE);
+  setTimeout(() => {
+    try { voice.stop(); } catch { }
+    gain.disconnect();
+  }, CROSSFADE * 1000 + 200);
+}
@@ -0,0 +1,97 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { promisify } from 'util';
+import { cookieHeader, cookieValue, deriveSecret, readToken, signToken } from './signing';
+
+// Anyone holding the edit token can change the library: upload photos,
+// restyle galaxies. EDIT_TOKEN, or UPLOAD_TOKEN from before there was
+// anything else to edit. Unset means the library is read-only.
+const EDIT_TOKEN = process.env.EDIT_TOKEN ?? process.env.UPLOAD_TOKEN ?? '';
+
+export class AuthError extends Error {
+  constructor(public status: 401 | 403, message: string) {
+    super(message);
+    this.name = 'AuthError';
+  }
+}
+
+// Throws AuthError unless the request carries `Authorization: Bearer <token>`
+export function checkEditToken(req: Request): void {
+  if (!EDIT_TOKEN) throw new AuthError(403, 'Editing is disabled (EDIT_TOKEN is not set)');
+  const given = Buffer.from(req.headers.get('authorization')?.replace(/^Bearer\s+/i, '') ?? '');
+  const expected = Buffer.from(EDIT_TOKEN);
+  if (given.length !== expected.length || !crypto.timingSafeEqual(given, expected)) {
+    throw new AuthError(401, 'Missing or wrong edit token');
+  }
+}
+
+// Signing in lets people see galaxies that aren't public: family sees
+// "family" galaxies, the owner sees everything. Accounts are listed in
+// users.json (USERS_FILE), kept out of the web root, with scrypt password
+// hashes. The session is a signed cookie, so changing SESSION_SECRET (or
+// the edit token it's derived from when unset) signs everyone out.
+const USERS_FILE = process.env.USERS_FILE ?? path.join(process.cwd(), 'users.json');
+const SESSION_SECRET = process.env.SESSION_SECRET ?? deriveSecret(EDIT_TOKEN, 'session');
+export const SESSION_COOKIE = 'fm-session';
+const SESSION_DAYS = 30;
+
+export type Role = 'family' | 'owner';
+
+export interface SessionUser {
+  email: string;
+  name: string;
+  role: Role;
+}
+
+interface Account extends SessionUser {
+  password: string; // "scrypt:<salt hex>:<hash hex>"
+}
+
+const scrypt = promisify(crypto.scrypt) as (password: string, salt: string, keylen: number) => Promise<Buffer>;
+
+// Checked against when the email is unknown, so a wrong email takes as long
+// as a wrong password
+const DUMMY_HASH = `scrypt:${'0'.repeat(32)}:${'0'.repeat(128)}`;
+
+async function readAccounts(): Promise<Account[]> {
+  const text = await fs.promises.readFile(USERS_FILE, 'utf8').catch(() => '[]');
+  const entries: unknown = JSON.parse(text);
+  if (!Array.isArray(entries)) throw new Error(`${USERS_FILE} must hold an array of accounts`);
+  return entries.filter((a): a is Account =>
+    typeof a?.email === 'string' && typeof a.password === 'string' && (a.role === 'family' || a.role === 'owner'));
+}
+
+async function passwordMatches(password: string, stored: string): Promise<boolean> {
+  const [scheme, salt, hash] = stored.split(':');
+  if (scheme !== 'scrypt' || !salt || !hash) return false;
+  const expected = Buffer.from(hash, 'hex');
+  if (expected.length < 16) return false;
+  const given = await scrypt(password, salt, expected.length);
+  return crypto.timingSafeEqual(given, expected);
+}
+
+// Checks an email and password against users.json and returns the session
+// cookie's value. Throws AuthError(401) for either being wrong.
+export async function signIn(email: string, password: string): Promise<{ user: SessionUser; token: string }> {
+  if (!SESSION_SECRET) throw new AuthError(403, 'Sign-in is disabled (set SESSION_SECRET or EDIT_TOKEN)');
+  const account = (await readAccounts()).find(a => a.email.toLowerCase() === email.trim().toLowerCase());
+  const matches = await passwordMatches(password, account?.password ?? DUMMY_HASH);
+  if (!account || !matches) throw new AuthError(401, 'Wrong email or password');
+  const user: SessionUser = { email: account.email, name: account.name || account.email, role: account.role };
+  return { user, token: signToken(SESSION_SECRET, 'session', { ...user, exp: Date.now() + SESSION_DAYS * 86400_000 }) };
+}
+
+// Who's signed in on the request's browser, if anyone
+export function requestUser(req: Request): SessionUser | null {
+  const value = cookieValue(req, SESSION_COOKIE);
+  const session = value ? readToken<Partial<SessionUser & { exp: number }>>(SESSION_SECRET, 'session', value) : null;
+  if (typeof session?.exp !== 'number' || session.exp <= Date.now()) return null;
+  if (session.role !== 'family' && session.role !== 'owner') return null;
+  if (typeof session.email !== 'string' || typeof session.name !== 'string') return null;
+  return { email: session.email, name: session.name, role: session.role };
+}
+
+export const sessionCookie = (token: string) => cookieHeader(SESSION_COOKIE, token, SESSION_DAYS * 86400);
+
+export const clearSessionCookie = () => cookieHeader(SESSION_COOKIE, '', 0);
@@ -0,0 +1,75 @@
+// Gamepads and VR controllers, read once a frame into the same few
+// navigation commands, so the gallery handles one kind of input whatever
+// is in the user's hands. Buttons fire once per press; sticks fire once per
+// flick and must come back towards the centre before firing again.
+
+export type ControllerCommand = 'select' | 'back' | 'next' | 'previous' | 'turn-left' | 'turn-right';
+
+export interface ControllerFrame {
+  commands: ControllerCommand[];
+  look: [number, number]; // right stick, -1 to 1 each way: orbits the camera
+  zoom: number;           // triggers, -1 (out) to 1 (in)
+}
+
+// The parts of a Gamepad read here; XR input sources carry the same shape
+export interface PadLike {
+  mapping: string;
+  buttons: readonly { pressed: boolean; value: number }[];
+  axes: readonly number[];
+}
+
+// "standard" mapping (https://w3c.github.io/gamepad/#remapping): A, B,
+// the bumpers and the d-pad
+const STANDARD_BUTTONS: [number, ControllerCommand][] = [
+  [0, 'select'], [1, 'back'], [4, 'previous'], [5, 'next'], [14, 'previous'], [15, 'next'],
+];
+
+// "xr-standard" (https://www.w3.org/TR/webxr-gamepads-module-1/): squeeze,
+// A/X and B/Y. The trigger isn't here: it picks what the controller points
+// at, which the XR session reports as select events of its own.
+const XR_BUTTONS: [number, ControllerCommand][] = [
+  [1, 'back'], [4, 'next'], [5, 'back'],
+];
+
+const FLICK_ON = 0.7;
+const FLICK_OFF = 0.3;
+const DEADZONE = 0.15;
+
+const deadzone = (v: number) => (Math.abs(v) < DEADZONE ? 0 : v);
+
+export class ControllerReader {
+  private held = new Set<string>();
+
+  // `key` tells pads apart between frames, e.g. "pad0" or "xr-left"
+  read(pads: { key: string; pad: PadLike }[]): ControllerFrame {
+    const frame: ControllerFrame = { commands: [], look: [0, 0], zoom: 0 };
+    const seen = new Set<string>();
+
+    const control = (id: string, down: boolean, command: ControllerCommand) => {
+      if (!down) return;
+      seen.add(id);
+      if (!this.held.has(id)) frame.commands.push(command);
+    };
+    const flick = (id: string, value: number, negative: ControllerCommand, positive: ControllerCommand) => {
+      const threshold = (side: string) => (this.held.has(`${id}${side}`) ? FLICK_OFF : FLICK_ON);
+      control(`${id}-`, value < -threshold('-'), negative);
+      control(`${id}+`, value > threshold('+'), positive);
+    };
+
+    for (const { key, pad } of pads) {
+      if (pad.mapping === 'xr-standard') {
+        for (const [i, command] of XR_BUTTONS) control(`${key}:b${i}`, !!pad.buttons[i]?.pressed, command);
+        flick(`${key}:stick`, pad.axes[2] ?? 0, 'turn-left', 'turn-right');
+      } else if (pad.mapping === 'standard') {
+        for (const [i, command] of STANDARD_BUTTONS) control(`${key}:b${i}`, !!pad.buttons[i]?.pressed, command);
+        flick(`${key}:stick`, pad.axes[0] ?? 0, 'previous', 'next');
+        frame.look[0] += deadzone(pad.axes[2] ?? 0);
+        frame.look[1] += deadzone(pad.axes[3] ?? 0);
+        frame.zoom += (pad.buttons[7]?.value ?? 0) - (pad.buttons[6]?.value ?? 0);
+      }
+    }
+
+    this.held = seen;
+    return frame;
+  }
+}
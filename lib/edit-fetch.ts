@@ -0,0 +1,31 @@
+// Browser side of the edit token: remembered in localStorage, asked for the
+// first time a write comes back 401, and retried once with the answer.
+
+const TOKEN_KEY = 'floating-memories:edit-token';
+
+export class EditFailed extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+    this.name = 'EditFailed';
+  }
+}
+
+function send(url: string, init: RequestInit, token: string): Promise<Response> {
+  return fetch(url, { ...init, headers: { ...init.headers, Authorization: `Bearer ${token}` } });
+}
+
+// fetch() for write endpoints. Resolves with the parsed JSON body; throws
+// EditFailed with the server's error message otherwise.
+export async function editFetch<T>(url: string, init: RequestInit): Promise<T> {
+  let res = await send(url, init, localStorage.getItem(TOKEN_KEY) ?? '');
+  if (res.status === 401) {
+    const token = window.prompt('Edit token') ?? '';
+    if (token) {
+      res = await send(url, init, token);
+      if (res.ok) localStorage.setItem(TOKEN_KEY, token);
+    }
+  }
+  const json = await res.json().catch(() => ({}));
+  if (!res.ok) throw new EditFailed(res.status, json.error ?? `Request failed (${res.status})`);
+  return json as T;
+}
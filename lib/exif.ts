@@ -0,0 +1,87 @@
+import exifr from 'exifr';
+import { readBuffer, type StoredFile } from './storage';
+import type { PhotoExif } from './types';
+
+const EXIF_TAGS = [
+  'DateTimeOriginal', 'CreateDate', 'OffsetTimeOriginal',
+  'Make', 'Model', 'LensModel',
+  'ExposureTime', 'FNumber', 'ISO', 'FocalLength', 'FocalLengthIn35mmFormat',
+  'Orientation',
+  'GPSLatitude', 'GPSLatitudeRef', 'GPSLongitude', 'GPSLongitudeRef', 'GPSAltitude',
+  'latitude', 'longitude',
+];
+
+// reviveValues off: keep dates as the raw camera strings instead of letting
+// exifr turn them into server-local Date objects
+const PARSE_OPTIONS = {
+  tiff: true, exif: true, gps: true,
+  reviveValues: false, translateValues: false,
+  pick: EXIF_TAGS,
+};
+
+// EXIF sits near the start of JPEGs; only files whose header doesn't have it
+// (some HEICs) are read in full — that matters once storage is a bucket
+const HEAD_BYTES = 256 * 1024;
+
+// EXIF parsing reads the file header on every call — keep results per key
+// and drop them when the file's mtime changes.
+const cache = new Map<string, { mtimeMs: number; exif: PhotoExif }>();
+
+// "2025:02:27 17:29:51" + "+09:00" -> "2025-02-27T17:29:51+09:00"
+function toIsoLocal(raw: unknown, offset: unknown): string | undefined {
+  if (typeof raw !== 'string') return undefined;
+  const m = /^(\d{4}):(\d{2}):(\d{2})[ T](\d{2}):(\d{2}):(\d{2})/.exec(raw);
+  if (!m || m[1] === '0000') return undefined;
+  const iso = `${m[1]}-${m[2]}-${m[3]}T${m[4]}:${m[5]}:${m[6]}`;
+  return typeof offset === 'string' && /^[+-]\d{2}:\d{2}$/.test(offset) ? iso + offset : iso;
+}
+
+function num(v: unknown): number | undefined {
+  return typeof v === 'number' && Number.isFinite(v) ? v : undefined;
+}
+
+function str(v: unknown): string | undefined {
+  return typeof v === 'string' && v.trim() ? v.trim() : undefined;
+}
+
+async function parseTags(file: StoredFile) {
+  if (file.size > HEAD_BYTES) {
+    const head = await readBuffer(file.key, { start: 0, end: HEAD_BYTES - 1 });
+    const tags = await exifr.parse(head, PARSE_OPTIONS).catch(() => undefined);
+    if (tags) return tags;
+  }
+  return exifr.parse(await readBuffer(file.key), PARSE_OPTIONS);
+}
+
+export async function readPhotoExif(file: StoredFile): Promise<PhotoExif> {
+  const hit = cache.get(file.key);
+  if (hit && hit.mtimeMs === file.mtimeMs) return hit.exif;
+
+  let exif: PhotoExif = {};
+  try {
+    const tags = await parseTags(file);
+    if (tags) {
+      const lat = num(tags.latitude);
+      const lng = num(tags.longitude);
+      exif = {
+        takenAt: toIsoLocal(tags.DateTimeOriginal ?? tags.CreateDate, tags.OffsetTimeOriginal),
+        make: str(tags.Make),
+        camera: str(tags.Model),
+        lens: str(tags.LensModel),
+        exposureTime: num(tags.ExposureTime),
+        fNumber: num(tags.FNumber),
+        iso: num(tags.ISO),
+        focalLength: num(tags.FocalLengthIn35mmFormat) ?? num(tags.FocalLength),
+        orientation: num(tags.Orientation),
+        gps: lat !== undefined && lng !== undefined
+          ? { lat, lng, altitude: num(tags.GPSAltitude) }
+          : undefined,
+      };
+    }
+  } catch {
+    // Unsupported or corrupt header — the photo still shows, just without camera info
+  }
+
+  cache.set(file.key, { mtimeMs: file.mtimeMs, exif });
+  return exif;
+}
@@ -0,0 +1,121 @@
+// Turning a flight into files: each frame is rendered on its own, then
+// either saved as a PNG (all of them zipped up) or fed to a MediaRecorder
+// for a WebM. Browser-only.
+
+export type FlightExportFormat = 'png' | 'webm';
+
+export const FLIGHT_FPS = [24, 30, 60];
+
+// --- A minimal zip: stored, not compressed — PNGs are compressed already ---
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+function crc32(bytes: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (const byte of bytes) crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function header(fields: [number, 2 | 4][]): Uint8Array<ArrayBuffer> {
+  const out = new Uint8Array(fields.reduce((n, [, size]) => n + size, 0));
+  const view = new DataView(out.buffer);
+  let at = 0;
+  for (const [value, size] of fields) {
+    if (size === 2) view.setUint16(at, value, true);
+    else view.setUint32(at, value, true);
+    at += size;
+  }
+  return out;
+}
+
+// Files are read one at a time for their checksum; the zip itself stays a
+// Blob made of the original Blobs, so a long sequence isn't copied in memory.
+export async function zipBlobs(files: { name: string; blob: Blob }[]): Promise<Blob> {
+  const parts: BlobPart[] = [];
+  const directory: BlobPart[] = [];
+  let offset = 0;
+  for (const { name, blob } of files) {
+    const nameBytes = new TextEncoder().encode(name);
+    const crc = crc32(new Uint8Array(await blob.arrayBuffer()));
+    const common: [number, 2 | 4][] = [[20, 2], [0, 2], [0, 2], [0, 2], [0x21, 2], [crc, 4], [blob.size, 4], [blob.size, 4], [nameBytes.length, 2], [0, 2]];
+    const local = header([[0x04034b50, 4], ...common]);
+    parts.push(local, nameBytes, blob);
+    directory.push(header([[0x02014b50, 4], [20, 2], ...common, [0, 2], [0, 2], [0, 2], [0, 4], [offset, 4]]), nameBytes);
+    offset += local.length + nameBytes.length + blob.size;
+  }
+  const directorySize = directory.reduce<number>((n, part) => n + (part as Uint8Array).length, 0);
+  const end = header([[0x06054b50, 4], [0, 2], [0, 2], [files.length, 2], [files.length, 2], [directorySize, 4], [offset, 4], [0, 2]]);
+  return new Blob([...parts, ...directory, end], { type: 'application/zip' });
+}
+
+// --- Rendering ---
+
+interface ExportOptions {
+  canvas: HTMLCanvasElement;
+  frames: number;
+  fps: number;
+  format: FlightExportFormat;
+  renderFrame: (index: number) => Promise<void>; // draws frame `index` on the canvas
+  onProgress: (done: number) => void;
+  signal: AbortSignal;
+}
+
+const toPng = (canvas: HTMLCanvasElement) => new Promise<Blob>((resolve, reject) =>
+  canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error('The canvas could not be read')), 'image/png'));
+
+// Renders every frame and returns the zip of PNGs or the WebM. Frames are
+// drawn at the canvas's size. A MediaRecorder stamps frames with the time
+// they arrive, so for a WebM frames are paced to the frame rate in real time.
+export async function exportFlight({ canvas, frames, fps, format, renderFrame, onProgress, signal }: ExportOptions): Promise<Blob> {
+  const aborted = () => new DOMException('Export cancelled', 'AbortError');
+
+  if (format === 'png') {
+    const files: { name: string; blob: Blob }[] = [];
+    for (let i = 0; i < frames; i++) {
+      if (signal.aborted) throw aborted();
+      await renderFrame(i);
+      files.push({ name: `frame-${String(i + 1).padStart(5, '0')}.png`, blob: await toPng(canvas) });
+      onProgress(i + 1);
+    }
+    return zipBlobs(files);
+  }
+
+  if (typeof MediaRecorder === 'undefined' || !MediaRecorder.isTypeSupported('video/webm')) {
+    throw new Error('This browser can\'t record WebM — export PNG frames instead');
+  }
+  const stream = canvas.captureStream(0);
+  const track = stream.getVideoTracks()[0] as CanvasCaptureMediaStreamTrack;
+  const recorder = new MediaRecorder(stream, { mimeType: 'video/webm', videoBitsPerSecond: 12_000_000 });
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (e) => { if (e.data.size) chunks.push(e.data); };
+  const stopped = new Promise<void>(resolve => { recorder.onstop = () => resolve(); });
+  recorder.start();
+  try {
+    for (let i = 0; i < frames; i++) {
+      if (signal.aborted) throw aborted();
+      const started = performance.now();
+      await renderFrame(i);
+      track.requestFrame();
+      onProgress(i + 1);
+      await new Promise(resolve => setTimeout(resolve, Math.max(0, 1000 / fps - (performance.now() - started))));
+    }
+  } finally {
+    recorder.stop();
+    await stopped;
+    track.stop();
+  }
+  return new Blob(chunks, { type: 'video/webm' });
+}
+
+export function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
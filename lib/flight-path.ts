@@ -0,0 +1,113 @@
+// Camera flights: keyframes of where the camera was, what it looked at and
+// which view was open, played back as a smooth path. Pure, so a flight plays
+// the same way every time — in the preview and frame by frame in an export.
+
+export type Vec3 = [number, number, number];
+
+// Which view a keyframe was captured in, as in the page's deep links
+export interface FlightView {
+  galaxy: string | null;          // galaxy id
+  photo: string | null;           // filename of the open photo
+  view: 'timeline' | 'geo' | null;
+}
+
+export interface FlightKeyframe {
+  time: number;    // seconds from the start of the flight
+  position: Vec3;  // camera
+  target: Vec3;    // what it looks at
+  view: FlightView;
+}
+
+export interface FlightPath {
+  version: 1;
+  keyframes: FlightKeyframe[]; // in time order
+}
+
+export const EMPTY_FLIGHT: FlightPath = { version: 1, keyframes: [] };
+
+export function flightDuration(path: FlightPath): number {
+  return path.keyframes.length ? path.keyframes[path.keyframes.length - 1].time : 0;
+}
+
+export class FlightPathError extends Error {
+  constructor(public issues: string[]) {
+    super(`Invalid flight path: ${issues.join('; ')}`);
+    this.name = 'FlightPathError';
+  }
+}
+
+const isVec3 = (v: unknown): v is Vec3 => Array.isArray(v) && v.length === 3 && v.every(n => typeof n === 'number' && Number.isFinite(n));
+const isId = (v: unknown): v is string | null => v === null || typeof v === 'string';
+
+// A flight read back from JSON
+export function parseFlightPath(data: unknown): FlightPath {
+  if (typeof data !== 'object' || data === null || Array.isArray(data)) throw new FlightPathError(['top level must be an object']);
+  const { version, keyframes } = data as Record<string, unknown>;
+  if (version !== 1) throw new FlightPathError([`unsupported version ${JSON.stringify(version)}`]);
+  if (!Array.isArray(keyframes)) throw new FlightPathError(['keyframes must be an array']);
+
+  const issues: string[] = [];
+  keyframes.forEach((kf, i) => {
+    const where = `keyframes[${i}]`;
+    if (typeof kf !== 'object' || kf === null) { issues.push(`${where} must be an object`); return; }
+    const { time, position, target, view } = kf as Record<string, unknown>;
+    if (typeof time !== 'number' || !(time >= 0)) issues.push(`${where}.time must be a number of seconds`);
+    else if (i > 0 && time < (keyframes[i - 1] as FlightKeyframe).time) issues.push(`${where}.time is earlier than the keyframe before it`);
+    if (!isVec3(position)) issues.push(`${where}.position must be [x, y, z]`);
+    if (!isVec3(target)) issues.push(`${where}.target must be [x, y, z]`);
+    const v = view as Record<string, unknown> | null;
+    if (typeof v !== 'object' || v === null || !isId(v.galaxy) || !isId(v.photo) || ![null, 'timeline', 'geo'].includes(v.view as string)) {
+      issues.push(`${where}.view must be { galaxy, photo, view }`);
+    }
+  });
+  if (issues.length) throw new FlightPathError(issues);
+  return { version: 1, keyframes: keyframes as FlightKeyframe[] };
+}
+
+// Slope of one coordinate at keyframe `i`: Catmull-Rom over time, but flat
+// at the ends, where the coordinate holds still on either side, and where it
+// turns around — so the camera eases in and out and never overshoots a keyframe.
+function slope(values: number[], times: number[], i: number): number {
+  if (i === 0 || i === values.length - 1) return 0;
+  const before = values[i] - values[i - 1];
+  const after = values[i + 1] - values[i];
+  const span = times[i + 1] - times[i - 1];
+  if (before === 0 || after === 0 || Math.sign(before) !== Math.sign(after) || span === 0) return 0;
+  return (values[i + 1] - values[i - 1]) / span;
+}
+
+function hermite(p0: number, p1: number, m0: number, m1: number, s: number, span: number): number {
+  const s2 = s * s;
+  const s3 = s2 * s;
+  return (2 * s3 - 3 * s2 + 1) * p0 + (s3 - 2 * s2 + s) * span * m0 + (-2 * s3 + 3 * s2) * p1 + (s3 - s2) * span * m1;
+}
+
+function sampleVec(points: Vec3[], times: number[], i: number, s: number, span: number): Vec3 {
+  return [0, 1, 2].map(axis => {
+    const values = points.map(p => p[axis]);
+    return hermite(values[i], values[i + 1], slope(values, times, i), slope(values, times, i + 1), s, span);
+  }) as Vec3;
+}
+
+// Where the camera is `t` seconds into the flight. The view switches when
+// its keyframe is reached.
+export function sampleFlightPath(path: FlightPath, t: number): { position: Vec3; target: Vec3; view: FlightView } | null {
+  const { keyframes } = path;
+  if (!keyframes.length) return null;
+  const last = keyframes.length - 1;
+  if (t <= keyframes[0].time) return keyframes[0];
+  if (t >= keyframes[last].time) return keyframes[last];
+
+  let i = 0;
+  while (keyframes[i + 1].time <= t) i++;
+  const times = keyframes.map(kf => kf.time);
+  const span = times[i + 1] - times[i];
+  const s = (t - times[i]) / span;
+  return {
+    position: sampleVec(keyframes.map(kf => kf.position), times, i, s, span),
+    target: sampleVec(keyframes.map(kf => kf.target), times, i, s, span),
+    view: keyframes[i].view,
+  };
+}
+
+export const sameView = (a: FlightView, b: FlightView) => a.galaxy === b.galaxy && a.photo === b.photo && a.view === b.view;
@@ -0,0 +1,18 @@
+// Changes to a galaxy folder run one at a time — uploads, moves, renames —
+// so none of them decides what's in a folder while another is changing it.
+const folderQueues = new Map<string, Promise<unknown>>();
+
+export function inFolderQueue<T>(folder: string, job: () => Promise<T>): Promise<T> {
+  const run = (folderQueues.get(folder) ?? Promise.resolve()).then(job, job);
+  folderQueues.set(folder, run.catch(() => undefined));
+  return run;
+}
+
+// Holds several folders at once. Always queued in the same (sorted) order,
+// so two jobs sharing folders can't each wait on the other.
+export function inFolderQueues<T>(folders: string[], job: () => Promise<T>): Promise<T> {
+  return [...new Set(folders)].sort().reduceRight<() => Promise<T>>(
+    (inner, folder) => () => inFolderQueue(folder, inner),
+    job,
+  )();
+}
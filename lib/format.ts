@@ -0,0 +1,47 @@
+import type { PhotoExif, PhotoMetadata } from './types';
+
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+// "2025-02-27T17:29:51+09:00" -> "Feb 27, 2025". Parsed by hand so the date
+// reads the same as on the camera, whatever timezone the server runs in.
+export function formatCaptureDate(takenAt: string): string {
+  const m = /^(\d{4})-(\d{2})-(\d{2})/.exec(takenAt);
+  if (!m) return '';
+  return `${MONTHS[Number(m[2]) - 1]} ${Number(m[3])}, ${m[1]}`;
+}
+
+// One-line camera summary for the detail panel, e.g. "42mm · f/1.6 · 1/368s · ISO 50"
+export function formatExposure(exif: PhotoExif): string {
+  const parts: string[] = [];
+  if (exif.focalLength) parts.push(`${Math.round(exif.focalLength)}mm`);
+  if (exif.fNumber) parts.push(`f/${exif.fNumber}`);
+  if (exif.exposureTime) {
+    parts.push(exif.exposureTime >= 1
+      ? `${exif.exposureTime}s`
+      : `1/${Math.round(1 / exif.exposureTime)}s`);
+  }
+  if (exif.iso) parts.push(`ISO ${exif.iso}`);
+  return parts.join(' · ');
+}
+
+// "2024-03-14T..." -> "Mar 2024", for timeline markers
+export function formatMonth(takenAt: string): string {
+  const m = /^(\d{4})-(\d{2})/.exec(takenAt);
+  return m ? `${MONTHS[Number(m[2]) - 1]} ${m[1]}` : '';
+}
+
+// Alt text from whatever a photo's metadata has, e.g. "Blossom. Cherry
+// blossoms by the river. With Mina and Joon. Taken Mar 30, 2024"
+export function photoAltText(photo: PhotoMetadata): string {
+  const parts = [photo.title || photo.filename];
+  if (photo.description && photo.description !== photo.title) parts.push(photo.description);
+  if (photo.people.length) {
+    const people = photo.people.length > 1
+      ? `${photo.people.slice(0, -1).join(', ')} and ${photo.people[photo.people.length - 1]}`
+      : photo.people[0];
+    parts.push(`With ${people}`);
+  }
+  const taken = photo.exif?.takenAt ? formatCaptureDate(photo.exif.takenAt) : photo.date;
+  if (taken) parts.push(`Taken ${taken}`);
+  return parts.map(part => part.replace(/[.\s]+$/, '')).join('. ');
+}
@@ -0,0 +1,213 @@
+import path from 'path';
+import { inFolderQueue } from './folder-queue';
+import { safeFolderName } from './photos';
+import { seededRandom } from './random';
+import { SidecarError } from './sidecar';
+import { AUDIO_EXTS } from './soundscape';
+import { readBuffer, storage } from './storage';
+import type { GalaxyConfig, Visibility } from './types';
+
+export const GALAXY_SIDECAR = 'galaxy.json';
+
+// A galaxy change the API should answer with a specific status
+export class GalaxyError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+    this.name = 'GalaxyError';
+  }
+}
+
+type GalaxyOverrides = Partial<Omit<GalaxyConfig, 'id' | 'folder'>>;
+
+const STRING_FIELDS = ['name', 'photoTitle', 'photoDate', 'photoDesc'] as const;
+const NUMBER_FIELDS = ['arms', 'thickness', 'spinSpeed', 'coreGlow'] as const;
+const VECTOR_FIELDS = ['position', 'rotation'] as const;
+const VISIBILITIES: Visibility[] = ['public', 'family', 'private'];
+
+// For galaxies whose galaxy.json doesn't say; DEFAULT_VISIBILITY=family keeps
+// new folders from showing up to everyone
+const DEFAULT_VISIBILITY: Visibility = VISIBILITIES.find(v => v === process.env.DEFAULT_VISIBILITY) ?? 'public';
+
+function hslToHex(h: number, s: number, l: number): string {
+  const a = s * Math.min(l, 1 - l);
+  const f = (n: number) => {
+    const k = (n + h / 30) % 12;
+    const c = l - a * Math.max(-1, Math.min(k - 3, 9 - k, 1));
+    return Math.round(c * 255).toString(16).padStart(2, '0');
+  };
+  return `#${f(0)}${f(8)}${f(4)}`;
+}
+
+// "street-food" -> "Street Food"
+function titleFromFolder(folder: string): string {
+  return folder
+    .split(/[-_]+/)
+    .filter(Boolean)
+    .map(w => w[0].toUpperCase() + w.slice(1))
+    .join(' ');
+}
+
+// Everything a folder without galaxy.json gets. Seeded by the folder name,
+// so a new galaxy keeps the same look on every load.
+export function defaultGalaxyConfig(folder: string): GalaxyConfig {
+  const rand = seededRandom(folder);
+  const range = (min: number, max: number) => min + rand() * (max - min);
+  const round = (v: number) => Math.round(v * 100) / 100;
+  const name = titleFromFolder(folder);
+  return {
+    id: folder,
+    folder,
+    name,
+    color: hslToHex(Math.floor(rand() * 360), 0.85, 0.6),
+    rotation: [round(range(-0.8, 0.8)), round(range(-0.9, 0.9)), round(range(-0.6, 0.7))],
+    photoTitle: name,
+    photoDate: '',
+    photoDesc: '',
+    arms: 2 + Math.floor(rand() * 5),
+    thickness: round(range(0.2, 1.2)),
+    spinSpeed: round(range(0.5, 1.8)),
+    coreGlow: round(range(0.9, 2.2)),
+    visibility: DEFAULT_VISIBILITY,
+  };
+}
+
+function validateOverrides(data: unknown): GalaxyOverrides {
+  if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+    throw new SidecarError(GALAXY_SIDECAR, ['top level must be an object']);
+  }
+  const issues: string[] = [];
+  const out: Record<string, unknown> = {};
+  for (const [key, v] of Object.entries(data)) {
+    if ((STRING_FIELDS as readonly string[]).includes(key)) {
+      if (typeof v === 'string') out[key] = v;
+      else issues.push(`${key} must be a string`);
+    } else if ((NUMBER_FIELDS as readonly string[]).includes(key)) {
+      if (typeof v === 'number' && v > 0) out[key] = key === 'arms' ? Math.round(v) : v;
+      else issues.push(`${key} must be a positive number`);
+    } else if ((VECTOR_FIELDS as readonly string[]).includes(key)) {
+      if (Array.isArray(v) && v.length === 3 && v.every(n => typeof n === 'number')) out[key] = v;
+      else issues.push(`${key} must be [x, y, z]`);
+    } else if (key === 'music') {
+      if (typeof v === 'string' && AUDIO_EXTS.test(v) && v === path.posix.basename(v)) out[key] = v;
+      else issues.push('music must be the name of an audio file in the galaxy\'s folder, like "theme.mp3"');
+    } else if (key === 'visibility') {
+      if (VISIBILITIES.includes(v as Visibility)) out[key] = v as Visibility;
+      else issues.push('visibility must be "public", "family" or "private"');
+    } else if (key === 'color') {
+      if (typeof v === 'string' && /^#[0-9a-f]{6}$/i.test(v)) out[key] = v;
+      else issues.push('color must be a hex string like "#ffaac8"');
+    } else {
+      issues.push(`${key} is not a known field`);
+    }
+  }
+  if (issues.length) throw new SidecarError(GALAXY_SIDECAR, issues);
+  return out as GalaxyOverrides;
+}
+
+async function readGalaxyFile(folder: string): Promise<unknown> {
+  const key = `${folder}/${GALAXY_SIDECAR}`;
+  if (!await storage().stat(key)) return {};
+  try {
+    return JSON.parse((await readBuffer(key)).toString('utf8'));
+  } catch (err) {
+    throw new SidecarError(GALAXY_SIDECAR, [(err as Error).message]);
+  }
+}
+
+// Errors name the file as "<folder>/galaxy.json"
+async function inGalaxy<T>(safe: string, job: () => Promise<T>): Promise<T> {
+  try {
+    return await job();
+  } catch (err) {
+    if (err instanceof SidecarError) throw new SidecarError(`${safe}/${err.file}`, err.issues);
+    throw err;
+  }
+}
+
+function loadGalaxy(safe: string): Promise<GalaxyConfig> {
+  return inGalaxy(safe, async () => ({ ...defaultGalaxyConfig(safe), ...validateOverrides(await readGalaxyFile(safe)) }));
+}
+
+export async function galaxyFolders(): Promise<string[]> {
+  const { folders } = await storage().list('');
+  return folders.filter(name => name === safeFolderName(name));
+}
+
+export async function getGalaxy(folder: string): Promise<GalaxyConfig | null> {
+  const safe = safeFolderName(folder);
+  if (!safe || !(await galaxyFolders()).includes(safe)) return null;
+  return loadGalaxy(safe);
+}
+
+// One galaxy per folder in storage. A galaxy whose galaxy.json is malformed
+// is logged and left out rather than failing the whole list; its defaults
+// could show a private galaxy to everyone.
+export async function listGalaxies(): Promise<GalaxyConfig[]> {
+  const galaxies = await Promise.all((await galaxyFolders()).map(async folder => {
+    try {
+      return await loadGalaxy(folder);
+    } catch (err) {
+      if (!(err instanceof SidecarError)) throw err;
+      console.error(`Skipping galaxy "${folder}":`, err.message);
+      return null;
+    }
+  }));
+  return galaxies.filter(g => g !== null).sort((a, b) => a.id.localeCompare(b.id));
+}
+
+// Throws SidecarError if `changes` for a galaxy.json hold an invalid value,
+// so a caller can check them before it changes anything else
+export function checkGalaxyChanges(changes: Record<string, unknown>): void {
+  validateOverrides(Object.fromEntries(Object.entries(changes).filter(([, v]) => v !== null)));
+}
+
+// Applies `changes` to a galaxy's galaxy.json, creating it if needed, and
+// returns the updated galaxy (null if there's no such folder). A field set to
+// null is removed, so it falls back to the generated default. Throws
+// SidecarError when the result wouldn't be valid; nothing is written then.
+export async function updateGalaxy(folder: string, changes: Record<string, unknown>): Promise<GalaxyConfig | null> {
+  const safe = safeFolderName(folder);
+  if (!safe || !(await galaxyFolders()).includes(safe)) return null;
+  return inFolderQueue(safe, () => inGalaxy(safe, async () => {
+    // Renamed or deleted while this waited its turn
+    if (!(await galaxyFolders()).includes(safe)) return null;
+    const current = await readGalaxyFile(safe);
+    const next: Record<string, unknown> = typeof current === 'object' && current !== null && !Array.isArray(current) ? { ...current } : {};
+    for (const [key, value] of Object.entries(changes)) {
+      if (value === null) delete next[key];
+      else next[key] = value;
+    }
+    validateOverrides(next);
+    await storage().write(`${safe}/${GALAXY_SIDECAR}`, Buffer.from(JSON.stringify(next, null, 2) + '\n'));
+    return loadGalaxy(safe);
+  }));
+}
+
+// "Street Food 🍜" -> "street-food"; empty when nothing usable is left
+function folderFromName(name: string): string {
+  return name.normalize('NFKD').toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+}
+
+// Makes a new, empty galaxy: a folder holding only its galaxy.json, with
+// `fields` as its config. The folder is `fields.folder` when given (409 if
+// taken), otherwise made from the name ("street-food", then "street-food-2").
+// Throws GalaxyError, or SidecarError for invalid config values.
+export async function createGalaxy(fields: Record<string, unknown>): Promise<GalaxyConfig> {
+  const { folder: requested, ...config } = fields;
+  if (typeof config.name !== 'string' || !config.name.trim()) throw new GalaxyError(400, 'A new galaxy needs a name');
+  if (requested !== undefined && (typeof requested !== 'string' || !requested || requested !== safeFolderName(requested))) {
+    throw new GalaxyError(400, 'folder may only contain letters, digits, "-" and "_"');
+  }
+  const base = requested ?? (folderFromName(config.name) || 'galaxy');
+  const taken = await galaxyFolders();
+  if (requested && taken.includes(requested)) throw new GalaxyError(409, `There is already a galaxy "${requested}"`);
+  let folder = base;
+  for (let n = 2; taken.includes(folder); n++) folder = `${base}-${n}`;
+
+  return inFolderQueue(folder, () => inGalaxy(folder, async () => {
+    if ((await galaxyFolders()).includes(folder)) throw new GalaxyError(409, `There is already a galaxy "${folder}"`);
+    validateOverrides(config);
+    await storage().write(`${folder}/${GALAXY_SIDECAR}`, Buffer.from(JSON.stringify(config, null, 2) + '\n'));
+    return loadGalaxy(folder);
+  }));
+}
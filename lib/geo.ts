@@ -0,0 +1,34 @@
+import { canSeeGalaxy, canSeePhoto, type Viewer } from './access';
+import { listGalaxies } from './galaxies';
+import { listPhotos } from './photos';
+import { SidecarError } from './sidecar';
+import type { GalaxyPhoto } from './types';
+
+// Every photo with GPS coordinates that `viewer` may see, grouped by galaxy.
+// Clustering into pins happens on the client, where the zoom level is known.
+export async function listGeoPhotos(viewer: Viewer): Promise<GalaxyPhoto[]> {
+  const entries: GalaxyPhoto[] = [];
+  for (const galaxy of (await listGalaxies()).filter(g => canSeeGalaxy(viewer, g))) {
+    // A broken sidecar in one galaxy leaves that galaxy out, not the whole globe
+    const page = await listPhotos(galaxy.folder).catch(err => {
+      if (!(err instanceof SidecarError)) throw err;
+      console.warn(`Skipping galaxy "${galaxy.folder}":`, err.message);
+      return null;
+    });
+    for (const photo of page?.photos ?? []) {
+      if (!photo.exif?.gps || !canSeePhoto(viewer, galaxy, photo.filename)) continue;
+      entries.push({
+        galaxyId: galaxy.id,
+        galaxyName: galaxy.name,
+        color: galaxy.color,
+        photo: {
+          ...photo,
+          title: photo.title || galaxy.photoTitle,
+          date: photo.date || galaxy.photoDate,
+          description: photo.description || galaxy.photoDesc,
+        },
+      });
+    }
+  }
+  return entries;
+}
@@ -0,0 +1,80 @@
+// Touch gestures recognised from raw pointer events. Pure bookkeeping: the
+// page decides what each gesture does. Thresholds are picked so the camera's
+// own one-finger orbit and two-finger dolly still work alongside them.
+
+export const TAP_SLOP = 10;         // px a finger may wander and still be tapping
+export const LONG_PRESS_MS = 500;
+const DOUBLE_TAP_MS = 300;
+const DOUBLE_TAP_SLOP = 30;         // px between the two taps
+const SWIPE_MIN = 60;               // px sideways
+const SWIPE_MS = 600;               // slower is a drag
+const PINCH_CLOSE = 0.6;            // finger spread, relative to where it started
+
+export interface TouchPoint {
+  x: number;
+  y: number;
+  t: number; // ms
+}
+
+export type Gesture =
+  | { type: 'swipe'; direction: 1 | -1 } // 1: to the left, i.e. onwards
+  | { type: 'pinch-close' };
+
+export const touchPoint = (e: { clientX: number; clientY: number; timeStamp: number }): TouchPoint =>
+  ({ x: e.clientX, y: e.clientY, t: e.timeStamp });
+
+export const withinSlop = (a: TouchPoint, b: TouchPoint, slop = TAP_SLOP) =>
+  Math.hypot(a.x - b.x, a.y - b.y) <= slop;
+
+// A tap soon after and close to the previous one
+export const isDoubleTap = (previous: TouchPoint | null, tap: TouchPoint) =>
+  !!previous && tap.t - previous.t <= DOUBLE_TAP_MS && withinSlop(previous, tap, DOUBLE_TAP_SLOP);
+
+const spread = (points: TouchPoint[]) => Math.hypot(points[0].x - points[1].x, points[0].y - points[1].y);
+
+// Swipes and pinches across the whole canvas. A swipe is one quick,
+// mostly sideways finger; a touch that ever had a second finger is never a
+// swipe. A pinch fires once, when two fingers have closed far enough.
+export class GestureTracker {
+  private starts = new Map<number, TouchPoint>();
+  private current = new Map<number, TouchPoint>();
+  private pinchFrom = 0;
+  private pinched = false;
+  private multi = false;
+
+  down(id: number, point: TouchPoint) {
+    if (!this.starts.size) {
+      this.multi = false;
+      this.pinched = false;
+    }
+    this.starts.set(id, point);
+    this.current.set(id, point);
+    if (this.starts.size > 1) this.multi = true;
+    if (this.starts.size === 2) this.pinchFrom = spread([...this.current.values()]);
+  }
+
+  move(id: number, point: TouchPoint): Gesture | null {
+    if (!this.current.has(id)) return null;
+    this.current.set(id, point);
+    if (this.current.size !== 2 || this.pinched || !this.pinchFrom) return null;
+    if (spread([...this.current.values()]) / this.pinchFrom > PINCH_CLOSE) return null;
+    this.pinched = true;
+    return { type: 'pinch-close' };
+  }
+
+  up(id: number, point: TouchPoint): Gesture | null {
+    const start = this.starts.get(id);
+    this.cancel(id);
+    if (!start || this.multi) return null;
+    const dx = point.x - start.x;
+    const dy = point.y - start.y;
+    if (point.t - start.t > SWIPE_MS || Math.abs(dx) < SWIPE_MIN || Math.abs(dx) < Math.abs(dy) * 2) return null;
+    return { type: 'swipe', direction: dx < 0 ? 1 : -1 };
+  }
+
+  cancel(id: number) {
+    this.starts.delete(id);
+    this.current.delete(id);
+    if (this.starts.size < 2) this.pinchFrom = 0;
+  }
+}
@@ -0,0 +1,129 @@
+import fs from 'fs';
+import path from 'path';
+import decodeHeic from 'heic-decode';
+import sharp, { type Sharp } from 'sharp';
+import { readBuffer, type StoredFile } from './storage';
+
+// Widths the image route will produce; requests snap up to the next one so
+// the on-disk cache can't be filled with one file per arbitrary ?w=
+export const IMAGE_WIDTHS = [256, 512, 1024, 2048];
+export const THUMB_WIDTH = 512;
+
+export type ImageFormat = 'avif' | 'webp';
+
+// Formats browsers can't put on a texture — served transcoded instead of as-is
+export const NEEDS_CONVERSION = /\.(heic|heif|tiff|tif)$/i;
+const HEIF_EXTS = /\.(heic|heif)$/i;
+
+export const IMAGE_CACHE_DIR = path.join(process.cwd(), '.cache', 'images');
+
+export function snapWidth(requested: number): number {
+  return IMAGE_WIDTHS.find(w => w >= requested) ?? IMAGE_WIDTHS[IMAGE_WIDTHS.length - 1];
+}
+
+// AVIF when the browser says it takes it, WebP otherwise
+export function pickFormat(accept: string | null): ImageFormat {
+  return accept?.includes('image/avif') ? 'avif' : 'webp';
+}
+
+export function thumbUrl(folder: string, filename: string): string {
+  return `/api/image/${folder}/${encodeURIComponent(filename)}?w=${THUMB_WIDTH}`;
+}
+
+// Full-size URL the browser can display: the original streamed from storage,
+// or a transcoded copy for HEIC/HEIF/TIFF
+export function displayUrl(folder: string, filename: string): string {
+  return `/api/image/${folder}/${encodeURIComponent(filename)}`;
+}
+
+const ORIGINAL_TYPES: Record<string, string> = {
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  avif: 'image/avif',
+};
+
+// Content type for serving an original as-is; null when it needs converting
+export function originalContentType(filename: string): string | null {
+  return ORIGINAL_TYPES[filename.split('.').pop()!.toLowerCase()] ?? null;
+}
+
+// sharp's prebuilt libvips reads AV1-coded HEIF only; iPhone photos are
+// HEVC-coded, so those go through libheif's wasm build first. libheif
+// applies the container's rotation itself — no EXIF rotate() afterwards.
+async function openHeic(buffer: Buffer): Promise<Sharp> {
+  const { width, height, data } = await decodeHeic({ buffer });
+  return sharp(Buffer.from(data.buffer, data.byteOffset, data.byteLength), { raw: { width, height, channels: 4 } });
+}
+
+function encode(image: Sharp, width: number | null, format: ImageFormat): Promise<Buffer> {
+  const pipeline = width ? image.resize({ width, withoutEnlargement: true }) : image;
+  return format === 'avif'
+    ? pipeline.avif({ quality: 50, effort: 2 }).toBuffer()
+    : pipeline.webp({ quality: 78 }).toBuffer();
+}
+
+// Concurrent requests for the same derivative share one sharp job
+const inFlight = new Map<string, Promise<Buffer>>();
+
+// A resized (or, with width null, full-size) EXIF-rotated copy of `source`,
+// generated once and then served from the local disk cache until the
+// original's mtime moves past it.
+export async function getDerivative(source: StoredFile, width: number | null, format: ImageFormat): Promise<Buffer> {
+  const cached = path.join(IMAGE_CACHE_DIR, `${source.key}-${width ?? 'full'}.${format}`);
+  const out = await fs.promises.stat(cached).catch(() => null);
+  if (out && out.mtimeMs >= source.mtimeMs) return fs.promises.readFile(cached);
+
+  const pending = inFlight.get(cached);
+  if (pending) return pending;
+
+  const job = (async () => {
+    // rotate() with no angle applies the EXIF orientation; metadata (GPS
+    // included) is dropped from the output
+    const original = await readBuffer(source.key);
+    let buffer: Buffer;
+    try {
+      buffer = await encode(sharp(original).rotate(), width, format);
+    } catch (err) {
+      if (!HEIF_EXTS.test(source.name)) throw err;
+      buffer = await encode(await openHeic(original), width, format);
+    }
+    await fs.promises.mkdir(path.dirname(cached), { recursive: true });
+    await fs.promises.writeFile(cached, buffer);
+    return buffer;
+  })();
+  inFlight.set(cached, job);
+  try {
+    return await job;
+  } finally {
+    inFlight.delete(cached);
+  }
+}
+
+// An uploaded image re-encoded without its metadata (EXIF, GPS, XMP), with
+// the EXIF orientation baked in. Same format where sharp can write it; HEIC
+// and HEIF come back as JPEG, so `ext` may change.
+export async function stripMetadata(data: Buffer, ext: string): Promise<{ data: Buffer; ext: string }> {
+  const type = ext.slice(1).toLowerCase();
+  if (type === 'heic' || type === 'heif') {
+    try {
+      return { data: await sharp(data).rotate().jpeg({ quality: 92 }).toBuffer(), ext: '.jpg' };
+    } catch {
+      return { data: await (await openHeic(data)).jpeg({ quality: 92 }).toBuffer(), ext: '.jpg' };
+    }
+  }
+  // GIFs keep every frame; they have no orientation to apply
+  if (type === 'gif') return { data: await sharp(data, { animated: true }).gif().toBuffer(), ext };
+
+  const image = sharp(data).rotate();
+  switch (type) {
+    case 'png': return { data: await image.png().toBuffer(), ext };
+    case 'webp': return { data: await image.webp({ quality: 90 }).toBuffer(), ext };
+    case 'avif': return { data: await image.avif({ quality: 70 }).toBuffer(), ext };
+    case 'tif':
+    case 'tiff': return { data: await image.tiff().toBuffer(), ext };
+    default: return { data: await image.jpeg({ quality: 92 }).toBuffer(), ext };
+  }
+}
@@ -0,0 +1,198 @@
+import { seededRandom } from './random';
+
+type Vec3 = [number, number, number];
+
+// Photo count as far as looks are concerned: linear up to 8, then
+// logarithmic, so a galaxy holding a whole year of photos is bigger and
+// denser than one with eight — but not 40× bigger.
+export function visualPhotoCount(photoCount: number): number {
+  return photoCount <= 8 ? photoCount : 8 + Math.log2(photoCount / 8) * 4;
+}
+
+// Galaxy size as drawn by GalaxyParticleCluster — kept here so the layout
+// and the particles always agree on how much room a galaxy takes.
+export function discRadiusFor(photoCount: number): number {
+  return 2.5 + visualPhotoCount(photoCount) * 0.2;
+}
+
+export function sizeFactorFor(photoCount: number): number {
+  return 0.5 + Math.min(photoCount / 8, 1) * 0.8;
+}
+
+// World-space radius including the outer dust ring (1.35×) and hover growth (1.1×)
+export function galaxyFootprint(photoCount: number): number {
+  return discRadiusFor(photoCount) * 1.35 * sizeFactorFor(photoCount) * 1.1;
+}
+
+export interface LayoutItem {
+  id: string;
+  photoCount: number;
+  position?: Vec3; // pinned by galaxy.json — the layout leaves it where it is
+}
+
+export interface UniverseFrame {
+  center: Vec3;
+  halfSize: Vec3; // bounding box half extents, footprints included
+}
+
+const GAP = 2.5;              // empty space kept between two galaxies' footprints
+const DEPTH = 18;             // how far galaxies spread along Z
+const RELAX_ITERATIONS = 120;
+const GOLDEN_ANGLE = Math.PI * (3 - Math.sqrt(5));
+
+// Places galaxies on a golden-angle spiral (wider than tall, to suit a
+// landscape screen), then pushes apart any pair whose footprints overlap.
+// Pure and deterministic: the same folders and photo counts always produce
+// the same universe.
+export function layoutGalaxies(items: LayoutItem[]): Record<string, Vec3> {
+  const sorted = [...items].sort((a, b) => a.id.localeCompare(b.id));
+  const radii = sorted.map(g => galaxyFootprint(g.photoCount) + GAP / 2);
+  // Sunflower spacing: neighbours on a golden-angle spiral sit ~1.8× this apart
+  const spacing = radii.length ? (1.2 * radii.reduce((s, r) => s + r, 0)) / radii.length : 0;
+
+  const pos: Vec3[] = sorted.map((g, i) => {
+    if (g.position) return [...g.position];
+    const rand = seededRandom(g.id);
+    const angle = i * GOLDEN_ANGLE;
+    const dist = Math.sqrt(i + 0.5) * spacing;
+    return [
+      Math.cos(angle) * dist * 1.45,
+      Math.sin(angle) * dist * 0.7,
+      -20 + (rand() - 0.5) * DEPTH,
+    ];
+  });
+
+  for (let iter = 0; iter < RELAX_ITERATIONS; iter++) {
+    let moved = false;
+    for (let i = 0; i < pos.length; i++) {
+      for (let j = i + 1; j < pos.length; j++) {
+        const pinnedI = !!sorted[i].position, pinnedJ = !!sorted[j].position;
+        if (pinnedI && pinnedJ) continue;
+        const dx = pos[j][0] - pos[i][0], dy = pos[j][1] - pos[i][1], dz = pos[j][2] - pos[i][2];
+        const dist = Math.sqrt(dx * dx + dy * dy + dz * dz) || 0.001;
+        const overlap = radii[i] + radii[j] - dist;
+        if (overlap <= 0) continue;
+        moved = true;
+        // Split the push between both, or hand all of it to the unpinned one
+        const shareI = pinnedI ? 0 : pinnedJ ? 1 : 0.5;
+        const shareJ = 1 - shareI;
+        const ux = dx / dist, uy = dy / dist, uz = dz / dist;
+        pos[i][0] -= ux * overlap * shareI; pos[i][1] -= uy * overlap * shareI; pos[i][2] -= uz * overlap * shareI;
+        pos[j][0] += ux * overlap * shareJ; pos[j][1] += uy * overlap * shareJ; pos[j][2] += uz * overlap * shareJ;
+      }
+    }
+    if (!moved) break;
+  }
+
+  return Object.fromEntries(sorted.map((g, i) => [g.id, pos[i]]));
+}
+
+// Bounding box of the laid-out universe, used to fit the universe camera
+export function universeFrame(galaxies: { position: Vec3; photoCount: number }[]): UniverseFrame {
+  if (!galaxies.length) return { center: [0, 0, 0], halfSize: [10, 10, 10] };
+  const min: Vec3 = [Infinity, Infinity, Infinity];
+  const max: Vec3 = [-Infinity, -Infinity, -Infinity];
+  for (const g of galaxies) {
+    const r = galaxyFootprint(g.photoCount);
+    for (let k = 0; k < 3; k++) {
+      min[k] = Math.min(min[k], g.position[k] - r);
+      max[k] = Math.max(max[k], g.position[k] + r);
+    }
+  }
+  return {
+    center: [(min[0] + max[0]) / 2, (min[1] + max[1]) / 2, (min[2] + max[2]) / 2],
+    halfSize: [(max[0] - min[0]) / 2, (max[1] - min[1]) / 2, (max[2] - min[2]) / 2],
+  };
+}
+
+// --- Card layout inside a galaxy (ClusterView) ---
+
+const RING_LAYOUT_MAX = 12;
+
+// Base position of every photo card around the galaxy centre. Small galaxies
+// keep the floating ring; bigger ones spread into a sunflower disc facing
+// the camera, wide enough that neighbouring cards don't overlap.
+export function clusterLayout(total: number): Vec3[] {
+  if (total <= RING_LAYOUT_MAX) {
+    return Array.from({ length: total }, (_, index) => {
+      const angle = (index / total) * Math.PI * 2;
+      const radius = 10 + (index % 3) * 1.5; // Wider: 10-13 range
+      return [
+        Math.cos(angle) * radius,
+        ((index % 5) - 2) * 2.5,  // Spread vertically as well, stable not random
+        Math.sin(angle) * radius * 0.6,
+      ];
+    });
+  }
+  return Array.from({ length: total }, (_, index) => {
+    const angle = index * GOLDEN_ANGLE;
+    const radius = 3.6 * Math.sqrt(index + 0.5);
+    return [
+      Math.cos(angle) * radius * 1.2, // cards are wider than tall
+      Math.sin(angle) * radius * 0.85,
+      ((index % 5) - 2) * 0.8,
+    ];
+  });
+}
+
+// --- Timeline helix ---
+
+const TIMELINE_STEP = 1.4;    // along X, per photo
+const TIMELINE_RADIUS = 5;
+const TIMELINE_TURN = 0.45;   // radians per photo
+
+// Point on the timeline helix for a (possibly fractional) photo index. The
+// helix winds around the X axis, so scrubbing is a sideways camera move.
+export function timelinePosition(index: number): Vec3 {
+  const angle = index * TIMELINE_TURN;
+  return [index * TIMELINE_STEP, Math.cos(angle) * TIMELINE_RADIUS, Math.sin(angle) * TIMELINE_RADIUS];
+}
+
+// Distance from the galaxy centre to the farthest card
+export function clusterRadius(layout: Vec3[]): number {
+  return layout.reduce((max, [x, y, z]) => Math.max(max, Math.sqrt(x * x + y * y + z * z)), 0);
+}
+
+// --- Globe ---
+
+export const GLOBE_RADIUS = 10;
+
+// Point on (or above, with `lift`) the globe for a latitude/longitude.
+// Longitude 0 faces +Z, east is +X, north is +Y.
+export function globePosition(lat: number, lng: number, lift = 0): Vec3 {
+  const phi = lat * Math.PI / 180;
+  const theta = lng * Math.PI / 180;
+  const r = GLOBE_RADIUS + lift;
+  return [Math.cos(phi) * Math.sin(theta) * r, Math.sin(phi) * r, Math.cos(phi) * Math.cos(theta) * r];
+}
+
+export interface GeoPin<T> {
+  key: string;
+  lat: number;
+  lng: number;
+  items: T[];
+}
+
+// Groups points into one pin per grid cell, placed at the cell's average
+// position. Cells are `cellDegrees` tall and proportionally wider towards the
+// poles, so a pin covers roughly the same ground everywhere.
+export function clusterPins<T>(items: T[], coords: (item: T) => { lat: number; lng: number }, cellDegrees: number): GeoPin<T>[] {
+  const cells = new Map<string, GeoPin<T>>();
+  for (const item of items) {
+    const { lat, lng } = coords(item);
+    const row = Math.floor(lat / cellDegrees);
+    const width = cellDegrees / Math.max(Math.cos((row + 0.5) * cellDegrees * Math.PI / 180), 0.1);
+    const key = `${row}:${Math.floor(lng / width)}`;
+    const pin = cells.get(key) ?? { key, lat: 0, lng: 0, items: [] };
+    pin.items.push(item);
+    cells.set(key, pin);
+  }
+  return [...cells.values()].map(pin => {
+    const points = pin.items.map(coords);
+    return {
+      ...pin,
+      lat: points.reduce((sum, p) => sum + p.lat, 0) / points.length,
+      lng: points.reduce((sum, p) => sum + p.lng, 0) / points.length,
+    };
+  });
+}
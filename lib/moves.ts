@@ -0,0 +1,185 @@
+import path from 'path';
+import { inFolderQueues } from './folder-queue';
+import { GALAXY_SIDECAR, GalaxyError, galaxyFolders, getGalaxy } from './galaxies';
+import { IMAGE_EXTS, safeFolderName } from './photos';
+import { FOLDER_SIDECAR, SidecarError, findPhotoSidecar, sidecarNames } from './sidecar';
+import { readBuffer, storage } from './storage';
+import type { GalaxyConfig } from './types';
+
+// One storage write of a bigger change, and how to take it back
+interface Step {
+  run: () => Promise<void>;
+  undo: () => Promise<void>;
+}
+
+// Runs the steps in order. If one fails, those already done are undone in
+// reverse, so the change either happens completely or not at all. Every
+// step leaves storage in a valid state — a photo is copied before its
+// original is deleted — so readers in between never see a broken galaxy.
+async function runSteps(steps: Step[]): Promise<void> {
+  const done: Step[] = [];
+  try {
+    for (const step of steps) {
+      await step.run();
+      done.push(step);
+    }
+  } catch (err) {
+    for (const step of done.reverse()) {
+      await step.undo().catch(undoErr => console.error('Failed to undo part of a move:', undoErr));
+    }
+    throw err;
+  }
+}
+
+const copyStep = (from: string, to: string): Step => ({
+  run: () => storage().copy(from, to),
+  undo: () => storage().delete(to),
+});
+
+// `backup` is a copy made by an earlier step, put back on undo
+const deleteStep = (key: string, backup: string): Step => ({
+  run: () => storage().delete(key),
+  undo: () => storage().copy(backup, key),
+});
+
+// Checked again once queued: the folder may have gone while waiting
+async function existingFolder(folder: string): Promise<string> {
+  const safe = safeFolderName(folder);
+  if (!safe || !(await galaxyFolders()).includes(safe)) throw new GalaxyError(404, `No galaxy "${folder}"`);
+  return safe;
+}
+
+// memories.json as stored, {} when the folder has none
+async function readEntries(folder: string, names: string[]): Promise<Record<string, unknown>> {
+  if (!names.includes(FOLDER_SIDECAR)) return {};
+  try {
+    const data = JSON.parse((await readBuffer(`${folder}/${FOLDER_SIDECAR}`)).toString('utf8'));
+    if (typeof data === 'object' && data !== null && !Array.isArray(data)) return data;
+    throw new Error('top level must be an object keyed by filename');
+  } catch (err) {
+    throw new SidecarError(`${folder}/${FOLDER_SIDECAR}`, [(err as Error).message]);
+  }
+}
+
+// Replaces memories.json with `entries`; undo puts back what was there
+function folderSidecarStep(folder: string, entries: Record<string, unknown>, before: Buffer | null): Step {
+  const key = `${folder}/${FOLDER_SIDECAR}`;
+  return {
+    run: () => storage().write(key, Buffer.from(JSON.stringify(entries, null, 2) + '\n')),
+    undo: () => before ? storage().write(key, before) : storage().delete(key),
+  };
+}
+
+// "IMG_0119.JPG" -> "IMG_0119-2.JPG"... until neither the photo nor any of
+// its sidecar names is taken
+function freeName(taken: Set<string>, filename: string): string {
+  const ext = path.extname(filename);
+  const base = path.basename(filename, ext);
+  let candidate = filename;
+  for (let n = 2; [candidate, ...sidecarNames(candidate)].some(name => taken.has(name)); n++) candidate = `${base}-${n}${ext}`;
+  return candidate;
+}
+
+// "IMG_0119.json" for "IMG_0119.JPG" becomes "IMG_0119-2.json" for "IMG_0119-2.JPG"
+function renamedSidecar(sidecar: string, filename: string, newName: string): string {
+  const stem = (name: string) => name.replace(/\.[^.]+$/, '');
+  return sidecar.startsWith(filename)
+    ? newName + sidecar.slice(filename.length)
+    : stem(newName) + sidecar.slice(stem(filename).length);
+}
+
+// The move itself; callers hold both folders' queues
+async function movePhotoSteps(from: string, filename: string, to: string): Promise<string> {
+  const [source, target] = await Promise.all([storage().list(from), storage().list(to)]);
+  const sourceNames = source.files.map(f => f.name);
+  const targetNames = target.files.map(f => f.name);
+  if (!IMAGE_EXTS.test(filename) || !sourceNames.includes(filename)) {
+    throw new GalaxyError(404, `No photo "${filename}" in "${from}"`);
+  }
+
+  const newName = freeName(new Set(targetNames), filename);
+  const steps: Step[] = [copyStep(`${from}/${filename}`, `${to}/${newName}`)];
+
+  // Its own sidecar file travels along, renamed to match
+  const sidecar = findPhotoSidecar(filename, new Set(sourceNames));
+  const newSidecar = sidecar && renamedSidecar(sidecar, filename, newName);
+  if (sidecar && newSidecar) steps.push(copyStep(`${from}/${sidecar}`, `${to}/${newSidecar}`));
+
+  // ...and so does its memories.json entry: added on the other side while the
+  // photo is in both folders, removed here before the original goes
+  const sourceEntries = await readEntries(from, sourceNames);
+  if (filename in sourceEntries) {
+    const targetEntries = await readEntries(to, targetNames);
+    const targetBefore = targetNames.includes(FOLDER_SIDECAR) ? await readBuffer(`${to}/${FOLDER_SIDECAR}`) : null;
+    const sourceBefore = await readBuffer(`${from}/${FOLDER_SIDECAR}`);
+    const { [filename]: entry, ...rest } = sourceEntries;
+    steps.push(folderSidecarStep(to, { ...targetEntries, [newName]: entry }, targetBefore));
+    steps.push(folderSidecarStep(from, rest, sourceBefore));
+  }
+
+  if (sidecar && newSidecar) steps.push(deleteStep(`${from}/${sidecar}`, `${to}/${newSidecar}`));
+  steps.push(deleteStep(`${from}/${filename}`, `${to}/${newName}`));
+
+  await runSteps(steps);
+  return newName;
+}
+
+// Moves a photo, with its metadata, into another galaxy and returns its
+// filename there — the same one unless that was taken ("IMG_0119-2.JPG").
+// All or nothing: if any part fails, the photo is left where it was.
+export async function movePhoto(folder: string, filename: string, into: string): Promise<string> {
+  const from = await existingFolder(folder);
+  const to = await existingFolder(into);
+  if (from === to) throw new GalaxyError(400, `"${filename}" is already in "${to}"`);
+  return inFolderQueues([from, to], async () => {
+    await Promise.all([existingFolder(from), existingFolder(to)]);
+    return movePhotoSteps(from, filename, to);
+  });
+}
+
+// Moves a galaxy to a new folder, which becomes its id. Everything in the
+// folder is copied before anything is deleted, and undone on failure.
+export async function renameGalaxy(folder: string, newFolder: string): Promise<GalaxyConfig> {
+  const from = await existingFolder(folder);
+  if (!newFolder || newFolder !== safeFolderName(newFolder)) {
+    throw new GalaxyError(400, 'folder may only contain letters, digits, "-" and "_"');
+  }
+  return inFolderQueues([from, newFolder], async () => {
+    await existingFolder(from);
+    if ((await galaxyFolders()).includes(newFolder)) throw new GalaxyError(409, `There is already a galaxy "${newFolder}"`);
+    const { files } = await storage().list(from);
+    await runSteps([
+      ...files.map(f => copyStep(f.key, `${newFolder}/${f.name}`)),
+      ...files.map(f => deleteStep(f.key, `${newFolder}/${f.name}`)),
+    ]);
+    return (await getGalaxy(newFolder))!;
+  });
+}
+
+// Deletes a galaxy folder and everything in it. With `into`, its photos are
+// moved there first, each one atomically; if a move fails the galaxy stays,
+// holding the photos that hadn't moved yet. Returns how many were moved.
+export async function deleteGalaxy(folder: string, into?: string): Promise<number> {
+  const from = await existingFolder(folder);
+  const to = into === undefined ? null : await existingFolder(into);
+  if (to === from) throw new GalaxyError(400, `Can't merge "${from}" into itself`);
+
+  return inFolderQueues(to ? [from, to] : [from], async () => {
+    await Promise.all([from, ...(to ? [to] : [])].map(existingFolder));
+    let moved = 0;
+    if (to) {
+      const { files } = await storage().list(from);
+      for (const photo of files.filter(f => IMAGE_EXTS.test(f.name))) {
+        await movePhotoSteps(from, photo.name, to);
+        moved++;
+      }
+    }
+    // galaxy.json last, so a galaxy that's only partly deleted still shows up
+    const { files } = await storage().list(from);
+    const config = files.filter(f => f.name === GALAXY_SIDECAR);
+    for (const file of [...files.filter(f => f.name !== GALAXY_SIDECAR), ...config]) {
+      await storage().delete(file.key);
+    }
+    return moved;
+  });
+}
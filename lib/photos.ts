@@ -0,0 +1,86 @@
+import { readPhotoExif } from './exif';
+import { formatCaptureDate } from './format';
+import { NEEDS_CONVERSION, displayUrl, thumbUrl } from './images';
+import { readSidecars, type PhotoSidecar } from './sidecar';
+import { storage, type StoredFile } from './storage';
+import type { PhotoMetadata, PhotoPage } from './types';
+
+export const IMAGE_EXTS = /\.(jpg|jpeg|png|gif|webp|heic|heif|avif|tiff|tif)$/i;
+
+// Sanitize: no path traversal
+export function safeFolderName(folder: string): string {
+  return folder.replace(/[^a-zA-Z0-9_\-]/g, '');
+}
+
+// Everything stored in a galaxy folder, and the images among it in a
+// consistent order
+async function folderContents(safe: string): Promise<{ names: string[]; images: StoredFile[] }> {
+  if (!safe) return { names: [], images: [] };
+  const { files } = await storage().list(safe);
+  return {
+    names: files.map(f => f.name),
+    images: files.filter(f => IMAGE_EXTS.test(f.name)).sort((a, b) => (a.name < b.name ? -1 : a.name > b.name ? 1 : 0)),
+  };
+}
+
+async function photoMetadata(safe: string, file: StoredFile, meta: PhotoSidecar = {}): Promise<PhotoMetadata> {
+  const exif = await readPhotoExif(file);
+  const filename = file.name;
+  return {
+    id: `${safe}-${filename}`,
+    url: displayUrl(safe, filename),
+    thumbUrl: thumbUrl(safe, filename),
+    needsConversion: NEEDS_CONVERSION.test(filename),
+    filename,
+    title: meta.title ?? '',
+    date: meta.date ?? (exif.takenAt ? formatCaptureDate(exif.takenAt) : ''),
+    description: meta.description ?? '',
+    tags: meta.tags ?? [],
+    people: meta.people ?? [],
+    exif,
+  };
+}
+
+export const DEFAULT_PAGE_SIZE = 50;
+export const MAX_PAGE_SIZE = 200;
+
+// Images in a memories folder, with EXIF and sidecar metadata merged, one
+// page at a time. The cursor is the last filename of the previous page, so
+// photos added mid-scroll don't shift later pages. Without `limit` the whole
+// folder comes back. Title and description stay empty when no sidecar sets
+// them — the gallery fills them from the galaxy. Throws SidecarError on
+// malformed sidecars.
+export async function listPhotos(
+  folder: string,
+  { cursor, limit }: { cursor?: string | null; limit?: number } = {},
+): Promise<PhotoPage> {
+  const safe = safeFolderName(folder);
+  const { names, images } = await folderContents(safe);
+  if (!images.length) return { photos: [], nextCursor: null, total: 0 };
+
+  const files = images.map(f => f.name);
+  const sidecars = await readSidecars(safe, files, names);
+
+  const start = cursor ? files.findIndex(f => f > cursor) : 0;
+  const end = limit === undefined ? files.length : start + limit;
+  const pageFiles = start === -1 ? [] : images.slice(start, end);
+
+  const photos = await Promise.all(pageFiles.map(file => photoMetadata(safe, file, sidecars[file.name])));
+
+  return {
+    photos,
+    nextCursor: start !== -1 && end < files.length ? files[end - 1] : null,
+    total: files.length,
+  };
+}
+
+// A single photo, as listPhotos would return it; null if it doesn't exist
+export async function getPhoto(folder: string, filename: string): Promise<PhotoMetadata | null> {
+  const safe = safeFolderName(folder);
+  const { names, images } = await folderContents(safe);
+  const file = images.find(f => f.name === filename);
+  if (!file) return null;
+  // Sidecars are read for the whole folder so memories.json is validated the same way
+  const sidecars = await readSidecars(safe, images.map(f => f.name), names);
+  return photoMetadata(safe, file, sidecars[filename]);
+}
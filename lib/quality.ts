@@ -0,0 +1,82 @@
+// Graphics quality tiers, and the governor that moves between them on
+// frame times so slow devices shed work instead of stuttering. The
+// viewer's own settings still apply on top: a tier only ever caps them.
+
+export interface QualityTier {
+  name: 'low' | 'medium' | 'high';
+  particles: number;       // multiplier on each galaxy's particle count
+  postProcessing: boolean; // bloom and depth of field allowed
+  maxDpr: number;          // cap on device pixels per CSS pixel
+  nebulae: number;         // cloud planes behind the universe
+  labelFps: number;        // how often galaxy labels re-check their fade
+}
+
+// Lowest first; the governor steps through them by index
+export const QUALITY_TIERS: QualityTier[] = [
+  { name: 'low', particles: 0.4, postProcessing: false, maxDpr: 1, nebulae: 0, labelFps: 4 },
+  { name: 'medium', particles: 0.7, postProcessing: false, maxDpr: 1.25, nebulae: 2, labelFps: 15 },
+  { name: 'high', particles: 1, postProcessing: true, maxDpr: 2, nebulae: 5, labelFps: 60 },
+];
+
+export type QualitySetting = 'auto' | QualityTier['name'];
+
+export const QUALITY_SETTINGS: QualitySetting[] = ['auto', ...QUALITY_TIERS.map(t => t.name)];
+
+export const tierIndex = (name: QualityTier['name']) => QUALITY_TIERS.findIndex(t => t.name === name);
+
+export interface FrameStats {
+  fps: number;
+  frameMs: number;   // average frame time
+  calls: number;     // draw calls in the last frame, every pass included
+  triangles: number;
+}
+
+const WINDOW = 1;              // seconds of frames averaged per reading
+const LONG_FRAME = 0.25;       // a hidden tab or a one-off hitch, not a trend
+const SLOW_FPS = 45;
+const FAST_FPS = 57;
+const STEP_DOWN_AFTER = 2;     // slow readings in a row
+const STEP_UP_AFTER = 8;       // fast readings in a row
+const HOLD_AFTER_DROP = 20;    // seconds before trying a higher tier again
+
+// Steps down quickly when frames run slow and back up slowly once they've
+// been fast for a while, so a device on the edge doesn't flip-flop.
+export class FrameGovernor {
+  fps = 0;
+  private frames = 0;
+  private elapsed = 0;
+  private clock = 0;
+  private slow = 0;
+  private fast = 0;
+  private droppedAt = -Infinity;
+
+  constructor(public tier: number) { }
+
+  // Counts one frame. True when a reading has just been taken, after which
+  // `fps` is fresh and, if `adapt`, `tier` may have moved.
+  sample(delta: number, adapt: boolean): boolean {
+    if (delta > LONG_FRAME) return false;
+    this.frames++;
+    this.elapsed += delta;
+    this.clock += delta;
+    if (this.elapsed < WINDOW) return false;
+    this.fps = this.frames / this.elapsed;
+    this.frames = 0;
+    this.elapsed = 0;
+    if (!adapt) {
+      this.slow = this.fast = 0;
+      return true;
+    }
+    this.slow = this.fps < SLOW_FPS ? this.slow + 1 : 0;
+    this.fast = this.fps > FAST_FPS ? this.fast + 1 : 0;
+    if (this.slow >= STEP_DOWN_AFTER && this.tier > 0) {
+      this.tier--;
+      this.droppedAt = this.clock;
+      this.slow = this.fast = 0;
+    } else if (this.fast >= STEP_UP_AFTER && this.tier < QUALITY_TIERS.length - 1 && this.clock - this.droppedAt > HOLD_AFTER_DROP) {
+      this.tier++;
+      this.slow = this.fast = 0;
+    }
+    return true;
+  }
+}
@@ -0,0 +1,104 @@
+import {
+  CopyObjectCommand,
+  DeleteObjectCommand,
+  GetObjectCommand,
+  HeadObjectCommand,
+  ListObjectsV2Command,
+  PutObjectCommand,
+  S3Client,
+  type S3ClientConfig,
+} from '@aws-sdk/client-s3';
+import path from 'path';
+import type { Readable } from 'stream';
+import type { ByteRange, StorageAdapter, StoredFile } from './storage';
+
+// Any S3-compatible bucket: AWS, MinIO, R2, Backblaze... Folders are key
+// prefixes, so a galaxy exists as long as something is stored under it.
+export class S3Storage implements StorageAdapter {
+  private client: S3Client;
+
+  constructor(private bucket: string, private prefix: string, config: S3ClientConfig) {
+    this.client = new S3Client(config);
+  }
+
+  // S3_BUCKET is required. S3_ENDPOINT points at anything that isn't AWS
+  // (path-style addressing then, unless S3_FORCE_PATH_STYLE=false). Without
+  // S3_ACCESS_KEY_ID the SDK's usual credential chain applies.
+  static fromEnv(): S3Storage {
+    const { S3_BUCKET, S3_PREFIX, S3_REGION, S3_ENDPOINT, S3_FORCE_PATH_STYLE, S3_ACCESS_KEY_ID, S3_SECRET_ACCESS_KEY } = process.env;
+    if (!S3_BUCKET) throw new Error('STORAGE_BACKEND=s3 needs S3_BUCKET');
+    const prefix = S3_PREFIX ? S3_PREFIX.replace(/\/*$/, '/') : '';
+    return new S3Storage(S3_BUCKET, prefix, {
+      region: S3_REGION ?? 'us-east-1',
+      endpoint: S3_ENDPOINT,
+      forcePathStyle: S3_ENDPOINT ? S3_FORCE_PATH_STYLE !== 'false' : S3_FORCE_PATH_STYLE === 'true',
+      credentials: S3_ACCESS_KEY_ID && S3_SECRET_ACCESS_KEY
+        ? { accessKeyId: S3_ACCESS_KEY_ID, secretAccessKey: S3_SECRET_ACCESS_KEY }
+        : undefined,
+    });
+  }
+
+  async list(prefix: string) {
+    const base = this.prefix + (prefix ? `${prefix}/` : '');
+    const files: StoredFile[] = [];
+    const folders: string[] = [];
+    let token: string | undefined;
+    do {
+      const page = await this.client.send(new ListObjectsV2Command({
+        Bucket: this.bucket,
+        Prefix: base,
+        Delimiter: '/',
+        ContinuationToken: token,
+      }));
+      for (const { Prefix } of page.CommonPrefixes ?? []) {
+        if (Prefix) folders.push(Prefix.slice(base.length, -1));
+      }
+      for (const object of page.Contents ?? []) {
+        if (!object.Key || object.Key === base) continue;
+        const name = object.Key.slice(base.length);
+        files.push({
+          key: prefix ? `${prefix}/${name}` : name,
+          name,
+          size: object.Size ?? 0,
+          mtimeMs: object.LastModified?.getTime() ?? 0,
+        });
+      }
+      token = page.IsTruncated ? page.NextContinuationToken : undefined;
+    } while (token);
+    return { files, folders };
+  }
+
+  async stat(key: string): Promise<StoredFile | null> {
+    try {
+      const head = await this.client.send(new HeadObjectCommand({ Bucket: this.bucket, Key: this.prefix + key }));
+      return { key, name: path.posix.basename(key), size: head.ContentLength ?? 0, mtimeMs: head.LastModified?.getTime() ?? 0 };
+    } catch (err) {
+      if ((err as { $metadata?: { httpStatusCode?: number } }).$metadata?.httpStatusCode === 404) return null;
+      throw err;
+    }
+  }
+
+  async read(key: string, range?: ByteRange): Promise<Readable> {
+    const object = await this.client.send(new GetObjectCommand({
+      Bucket: this.bucket,
+      Key: this.prefix + key,
+      Range: range ? `bytes=${range.start}-${range.end}` : undefined,
+    }));
+    // In Node the SDK hands back an http.IncomingMessage, which is a Readable
+    return object.Body as Readable;
+  }
+
+  async write(key: string, data: Buffer): Promise<void> {
+    await this.client.send(new PutObjectCommand({ Bucket: this.bucket, Key: this.prefix + key, Body: data }));
+  }
+
+  async copy(from: string, to: string): Promise<void> {
+    // CopySource is "bucket/key", URL-encoded
+    const source = [this.bucket, ...(this.prefix + from).split('/')].map(encodeURIComponent).join('/');
+    await this.client.send(new CopyObjectCommand({ Bucket: this.bucket, Key: this.prefix + to, CopySource: source }));
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.client.send(new DeleteObjectCommand({ Bucket: this.bucket, Key: this.prefix + key }));
+  }
+}
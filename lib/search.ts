@@ -0,0 +1,84 @@
+import { canSeeGalaxy, canSeePhoto, type Viewer } from './access';
+import { listGalaxies } from './galaxies';
+import { listPhotos } from './photos';
+import { SidecarError } from './sidecar';
+import type { GalaxyConfig, PhotoMetadata, SearchResult } from './types';
+
+export const MAX_SEARCH_RESULTS = 30;
+
+// How much a term matching each field counts towards a photo's score
+const WEIGHTS = {
+  title: 5,
+  tags: 4,
+  people: 4,
+  filename: 2,
+  date: 2,
+  description: 1,
+  galaxy: 1,
+};
+
+function fieldsOf(galaxy: GalaxyConfig, photo: PhotoMetadata): Record<keyof typeof WEIGHTS, string[]> {
+  return {
+    title: [photo.title || galaxy.photoTitle],
+    tags: photo.tags,
+    people: photo.people,
+    filename: [photo.filename],
+    // "Feb 27, 2025" and "2025-02-27" both match, so "2025-02" and "feb 2025" work
+    date: [photo.date || galaxy.photoDate, photo.exif?.takenAt ?? ''],
+    description: [photo.description || galaxy.photoDesc],
+    galaxy: [galaxy.name],
+  };
+}
+
+// Every term has to match somewhere; "#tag" only matches tags, exactly.
+function scorePhoto(terms: string[], galaxy: GalaxyConfig, photo: PhotoMetadata): number {
+  const fields = fieldsOf(galaxy, photo);
+  let total = 0;
+  for (const term of terms) {
+    let best = 0;
+    if (term.startsWith('#')) {
+      if (photo.tags.some(t => t.toLowerCase() === term.slice(1))) best = WEIGHTS.tags;
+    } else {
+      for (const [field, values] of Object.entries(fields) as [keyof typeof WEIGHTS, string[]][]) {
+        if (values.some(v => v.toLowerCase().includes(term))) best = Math.max(best, WEIGHTS[field]);
+      }
+    }
+    if (!best) return 0;
+    total += best;
+  }
+  return total;
+}
+
+// Full scan of every galaxy's photos; EXIF comes from the per-file cache, so
+// after the first query this is just string matching. Only what `viewer`
+// may see is searched.
+export async function searchMemories(query: string, viewer: Viewer): Promise<SearchResult[]> {
+  const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+  if (!terms.length) return [];
+
+  const results: SearchResult[] = [];
+  for (const galaxy of (await listGalaxies()).filter(g => canSeeGalaxy(viewer, g))) {
+    // A broken sidecar in one galaxy leaves that galaxy out, not the whole search
+    const page = await listPhotos(galaxy.folder).catch(err => {
+      if (!(err instanceof SidecarError)) throw err;
+      console.warn(`Skipping galaxy "${galaxy.folder}":`, err.message);
+      return null;
+    });
+    for (const photo of page?.photos ?? []) {
+      if (!canSeePhoto(viewer, galaxy, photo.filename)) continue;
+      const score = scorePhoto(terms, galaxy, photo);
+      if (score) {
+        results.push({
+          galaxyId: galaxy.id,
+          galaxyName: galaxy.name,
+          color: galaxy.color,
+          photo: { ...photo, title: photo.title || galaxy.photoTitle, date: photo.date || galaxy.photoDate },
+          score,
+        });
+      }
+    }
+  }
+  return results
+    .sort((a, b) => b.score - a.score || (b.photo.exif?.takenAt ?? '').localeCompare(a.photo.exif?.takenAt ?? ''))
+    .slice(0, MAX_SEARCH_RESULTS);
+}
@@ -0,0 +1,117 @@
+// Viewer preferences, kept in localStorage. A small external store for
+// useSyncExternalStore: every reader sees the same values, other tabs'
+// changes included, and the server render uses the defaults.
+import { DEFAULT_VOLUMES, type BusVolumes } from './audio';
+import { QUALITY_SETTINGS, type QualitySetting } from './quality';
+
+export type MotionSetting = 'system' | 'reduced' | 'full';
+
+export interface Settings {
+  muted: boolean;
+  volumes: BusVolumes;
+  stars: number;           // background star count
+  postProcessing: boolean; // bloom and depth of field in the universe view
+  particleDensity: number; // multiplier for each galaxy's particles
+  maxDpr: number;          // cap on device pixels per CSS pixel
+  motion: MotionSetting;   // 'system' follows prefers-reduced-motion
+  quality: QualitySetting; // 'auto' adapts to frame times
+  showStats: boolean;      // frame rate and draw call overlay
+}
+
+export const DEFAULT_SETTINGS: Settings = {
+  muted: false,
+  volumes: DEFAULT_VOLUMES,
+  stars: 2000,
+  postProcessing: true,
+  particleDensity: 1,
+  maxDpr: 1.5,
+  motion: 'system',
+  quality: 'auto',
+  showStats: false,
+};
+
+export const STAR_COUNTS = [0, 500, 1000, 2000, 4000];
+export const DPR_CAPS = [1, 1.5, 2];
+export const PARTICLE_DENSITIES = [0.25, 0.5, 1, 1.5, 2];
+
+const STORAGE_KEY = 'floating-memories:settings';
+
+// Whatever was stored, field by field; anything missing or invalid (an
+// older version, a hand edit) gets its default
+function sanitize(data: unknown): Settings {
+  const stored = typeof data === 'object' && data !== null ? data as Record<string, unknown> : {};
+  const pick = <T>(key: keyof Settings, valid: (v: unknown) => boolean): T =>
+    (valid(stored[key]) ? stored[key] : DEFAULT_SETTINGS[key]) as T;
+  const volume = (v: unknown) => typeof v === 'number' && v >= 0 && v <= 1;
+  const volumes = typeof stored.volumes === 'object' && stored.volumes !== null ? stored.volumes as Record<string, unknown> : {};
+  return {
+    muted: pick('muted', v => typeof v === 'boolean'),
+    volumes: {
+      master: volume(volumes.master) ? volumes.master as number : DEFAULT_VOLUMES.master,
+      music: volume(volumes.music) ? volumes.music as number : DEFAULT_VOLUMES.music,
+      sfx: volume(volumes.sfx) ? volumes.sfx as number : DEFAULT_VOLUMES.sfx,
+    },
+    stars: pick('stars', v => STAR_COUNTS.includes(v as number)),
+    postProcessing: pick('postProcessing', v => typeof v === 'boolean'),
+    particleDensity: pick('particleDensity', v => PARTICLE_DENSITIES.includes(v as number)),
+    maxDpr: pick('maxDpr', v => DPR_CAPS.includes(v as number)),
+    motion: pick('motion', v => v === 'system' || v === 'reduced' || v === 'full'),
+    quality: pick('quality', v => QUALITY_SETTINGS.includes(v as QualitySetting)),
+    showStats: pick('showStats', v => typeof v === 'boolean'),
+  };
+}
+
+function readStored(): Settings {
+  try {
+    return sanitize(JSON.parse(window.localStorage.getItem(STORAGE_KEY) ?? '{}'));
+  } catch {
+    return DEFAULT_SETTINGS;
+  }
+}
+
+let current: Settings | null = null;
+const listeners = new Set<() => void>();
+const notify = () => listeners.forEach(listener => listener());
+
+const onStorage = (e: StorageEvent) => {
+  if (e.key !== STORAGE_KEY) return;
+  current = readStored();
+  notify();
+};
+
+export function getSettings(): Settings {
+  current ??= readStored();
+  return current;
+}
+
+export const getServerSettings = () => DEFAULT_SETTINGS;
+
+export function subscribeSettings(listener: () => void): () => void {
+  if (!listeners.size) window.addEventListener('storage', onStorage);
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+    if (!listeners.size) window.removeEventListener('storage', onStorage);
+  };
+}
+
+// Private browsing or a full quota only costs persistence
+export function updateSettings(changes: Partial<Settings>) {
+  current = { ...getSettings(), ...changes };
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(current));
+  } catch { }
+  notify();
+}
+
+// --- The system's reduced-motion preference, as a store of its own ---
+
+const REDUCED_MOTION = '(prefers-reduced-motion: reduce)';
+
+export function subscribeMotionPreference(listener: () => void): () => void {
+  const query = window.matchMedia(REDUCED_MOTION);
+  query.addEventListener('change', listener);
+  return () => query.removeEventListener('change', listener);
+}
+
+export const systemPrefersReducedMotion = () => window.matchMedia(REDUCED_MOTION).matches;
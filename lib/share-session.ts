@@ -0,0 +1,47 @@
+// Browser side of share links: a visit to /?share=<token> trades the token
+// (and the passphrase, asked for when the server wants one) for the session
+// cookie, then drops it from the address bar. From there on the server
+// scopes every read to the share by itself.
+import type { ShareSummary } from './shares';
+
+export class ShareFailed extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+    this.name = 'ShareFailed';
+  }
+}
+
+function post(token: string, passphrase: string): Promise<Response> {
+  return fetch('/api/shares/session', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ token, passphrase }),
+  });
+}
+
+// Opens the share in the page's address, if there is one, and resolves with
+// the share this browser is in, if any. Throws ShareFailed for a link that's
+// expired, broken, or whose passphrase prompt was dismissed.
+export async function joinShare(): Promise<ShareSummary | null> {
+  const url = new URL(window.location.href);
+  const token = url.searchParams.get('share');
+  if (token) {
+    url.searchParams.delete('share');
+    window.history.replaceState(null, '', url);
+    let res = await post(token, '');
+    while (res.status === 401) {
+      const passphrase = window.prompt((await res.json()).error === 'Wrong passphrase' ? 'Wrong passphrase — try again' : 'Passphrase for this album');
+      if (passphrase === null) throw new ShareFailed(401, 'This album needs its passphrase');
+      res = await post(token, passphrase);
+    }
+    const json = await res.json().catch(() => ({}));
+    if (!res.ok) throw new ShareFailed(res.status, json.error ?? `Request failed (${res.status})`);
+    return json as ShareSummary;
+  }
+  const res = await fetch('/api/shares/session');
+  return res.ok ? res.json() : null;
+}
+
+export async function leaveShare(): Promise<void> {
+  await fetch('/api/shares/session', { method: 'DELETE' });
+}
@@ -0,0 +1,172 @@
+import crypto from 'crypto';
+import { galaxyFolders } from './galaxies';
+import { getPhoto, safeFolderName } from './photos';
+import { cookieHeader, cookieValue, deriveSecret, mac as macWith, macEquals, readToken, signToken } from './signing';
+
+// Share links: read-only access to a few galaxies or photos. The link is the
+// grant itself, signed with SHARE_SECRET (or a secret derived from the edit
+// token when that's unset), so there is nothing to store. A link works until it expires or the
+// secret changes. Opening one sets a cookie that every read route checks, so
+// a shared session only ever sees what was shared.
+const SECRET = process.env.SHARE_SECRET ?? deriveSecret(process.env.EDIT_TOKEN ?? process.env.UPLOAD_TOKEN ?? '', 'share');
+
+export const SHARE_COOKIE = 'fm-share';
+const MAX_SHARED_ITEMS = 100;
+
+export class ShareError extends Error {
+  constructor(public status: 400 | 401 | 403 | 404 | 410, message: string) {
+    super(message);
+    this.name = 'ShareError';
+  }
+}
+
+export interface Share {
+  id: string;
+  label: string;
+  galaxies: string[];         // folders shared whole
+  photos: string[];           // "<folder>/<filename>", shared one by one
+  expiresAt: number | null;   // ms since the epoch
+  passphrase: string | null;  // keyed hash; the passphrase itself is never kept
+}
+
+// What a visitor is told about the share they're in
+export interface ShareSummary {
+  label: string;
+  galaxies: string[];
+  photos: string[];
+  expiresAt: string | null;
+  passphrase: boolean;
+}
+
+const mac = (data: string) => macWith(SECRET, data);
+
+const passphraseHash = (id: string, passphrase: string) => mac(`passphrase:${id}:${passphrase}`);
+const unlockProof = (id: string) => mac(`unlocked:${id}`);
+
+export function summarizeShare(share: Share): ShareSummary {
+  return {
+    label: share.label,
+    galaxies: share.galaxies,
+    photos: share.photos,
+    expiresAt: share.expiresAt === null ? null : new Date(share.expiresAt).toISOString(),
+    passphrase: !!share.passphrase,
+  };
+}
+
+async function validateItems(fields: Record<string, unknown>, issues: string[]) {
+  const list = (key: string): string[] => {
+    const v = fields[key] ?? [];
+    if (Array.isArray(v) && v.every(s => typeof s === 'string')) return [...new Set(v as string[])];
+    issues.push(`${key} must be an array of strings`);
+    return [];
+  };
+  const galaxies = list('galaxies');
+  const photos = list('photos');
+
+  const folders = await galaxyFolders();
+  for (const folder of galaxies) {
+    if (!folders.includes(folder)) issues.push(`galaxy "${folder}" does not exist`);
+  }
+  for (const key of photos) {
+    const [folder, filename, ...rest] = key.split('/');
+    const exists = !rest.length && filename && folders.includes(safeFolderName(folder)) && await getPhoto(folder, filename);
+    if (!exists) issues.push(`photo "${key}" does not exist (expected "<folder>/<filename>")`);
+  }
+  if (!galaxies.length && !photos.length) issues.push('share at least one galaxy or photo');
+  if (galaxies.length + photos.length > MAX_SHARED_ITEMS) issues.push(`a share holds at most ${MAX_SHARED_ITEMS} galaxies and photos`);
+  // A photo in a galaxy that's shared whole would be listed twice
+  return { galaxies, photos: photos.filter(key => !galaxies.includes(key.split('/')[0])) };
+}
+
+function validateExpiry(fields: Record<string, unknown>, issues: string[]): number | null {
+  const { expiresAt, expiresInHours } = fields;
+  if (expiresAt !== undefined && expiresInHours !== undefined) {
+    issues.push('give expiresAt or expiresInHours, not both');
+    return null;
+  }
+  if (expiresInHours !== undefined) {
+    if (typeof expiresInHours === 'number' && expiresInHours > 0) return Date.now() + expiresInHours * 3600_000;
+    issues.push('expiresInHours must be a positive number');
+  }
+  if (expiresAt !== undefined) {
+    const at = typeof expiresAt === 'string' ? Date.parse(expiresAt) : NaN;
+    if (at > Date.now()) return at;
+    issues.push('expiresAt must be a date in the future, like "2025-12-31T23:59:00Z"');
+  }
+  return null;
+}
+
+// Signs a new share link from `fields`: { galaxies?, photos?, label?,
+// expiresAt? | expiresInHours?, passphrase? }. Throws ShareError(400)
+// naming every problem, or 403 when there's no secret to sign with.
+export async function createShare(fields: Record<string, unknown>): Promise<{ token: string; share: Share }> {
+  if (!SECRET) throw new ShareError(403, 'Sharing is disabled (set SHARE_SECRET or EDIT_TOKEN)');
+  const issues: string[] = [];
+  const { galaxies, photos } = await validateItems(fields, issues);
+  const expiresAt = validateExpiry(fields, issues);
+  const { label = '', passphrase = '' } = fields;
+  if (typeof label !== 'string') issues.push('label must be a string');
+  if (typeof passphrase !== 'string') issues.push('passphrase must be a string');
+  if (issues.length) throw new ShareError(400, `Invalid share: ${issues.join('; ')}`);
+
+  const id = crypto.randomBytes(9).toString('base64url');
+  const share: Share = {
+    id,
+    label: label as string,
+    galaxies,
+    photos,
+    expiresAt,
+    passphrase: passphrase ? passphraseHash(id, passphrase as string) : null,
+  };
+  return { token: signToken(SECRET, 'share', share), share };
+}
+
+// The share a link stands for. Throws ShareError(404) for a link this server
+// didn't sign and 410 once it has expired.
+export function readShare(token: string): Share {
+  const share = readToken<Share>(SECRET, 'share', token);
+  if (!share) throw new ShareError(404, 'This share link is not valid');
+  if (share.expiresAt !== null && share.expiresAt <= Date.now()) {
+    throw new ShareError(410, 'This share link has expired');
+  }
+  return share;
+}
+
+// Checks the passphrase, if the share has one, and returns the cookie that
+// lets the browser in: the link, plus proof the passphrase was given.
+// Throws ShareError(401) when it's missing or wrong.
+export function unlockShare(token: string, passphrase: string): { share: Share; cookie: string } {
+  const share = readShare(token);
+  if (!share.passphrase) return { share, cookie: token };
+  if (!passphrase) throw new ShareError(401, 'This share needs a passphrase');
+  if (!macEquals(passphraseHash(share.id, passphrase), share.passphrase)) throw new ShareError(401, 'Wrong passphrase');
+  return { share, cookie: `${token}.${unlockProof(share.id)}` };
+}
+
+// The share the request's browser is in, or null for a visitor who didn't
+// come through a link. A cookie that no longer checks out counts as none.
+export function requestShare(req: Request): Share | null {
+  const value = cookieValue(req, SHARE_COOKIE);
+  if (!value) return null;
+  const [payload, signature, proof] = value.split('.');
+  try {
+    const share = readShare(`${payload}.${signature}`);
+    if (share.passphrase && !(proof && macEquals(proof, unlockProof(share.id)))) return null;
+    return share;
+  } catch {
+    return null;
+  }
+}
+
+// Set-Cookie for a share's session: until the link expires, or the browser closes
+export const shareCookie = (value: string, share: Share) =>
+  cookieHeader(SHARE_COOKIE, value, share.expiresAt === null ? null : (share.expiresAt - Date.now()) / 1000);
+
+export const clearShareCookie = () => cookieHeader(SHARE_COOKIE, '', 0);
+
+// Whether anything in `folder` is shared; the galaxy shows up if so
+export const sharesGalaxy = (share: Share, folder: string) =>
+  share.galaxies.includes(folder) || share.photos.some(key => key.startsWith(`${folder}/`));
+
+export const sharesPhoto = (share: Share, folder: string, filename: string) =>
+  share.galaxies.includes(folder) || share.photos.includes(`${folder}/${filename}`);
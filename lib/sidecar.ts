@@ -0,0 +1,109 @@
+import path from 'path';
+import { parse as parseYaml } from 'yaml';
+import { readBuffer } from './storage';
+
+// Hand-written metadata for a photo. Lives either in the folder-wide
+// memories.json (keyed by filename) or in a sidecar next to the image:
+// IMG_0119.json, IMG_0119.yaml or IMG_0119.JPG.json all work.
+export interface PhotoSidecar {
+  title?: string;
+  description?: string;
+  date?: string;
+  tags?: string[];
+  people?: string[];
+}
+
+const STRING_FIELDS = ['title', 'description', 'date'] as const;
+const LIST_FIELDS = ['tags', 'people'] as const;
+const SIDECAR_EXTS = ['.json', '.yaml', '.yml'];
+
+export const FOLDER_SIDECAR = 'memories.json';
+
+export class SidecarError extends Error {
+  constructor(public file: string, public issues: string[]) {
+    super(`Invalid metadata in ${file}: ${issues.join('; ')}`);
+    this.name = 'SidecarError';
+  }
+}
+
+function validateEntry(value: unknown, where: string, issues: string[]): PhotoSidecar {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    issues.push(`${where} must be an object`);
+    return {};
+  }
+  const entry: PhotoSidecar = {};
+  for (const [key, v] of Object.entries(value)) {
+    if ((STRING_FIELDS as readonly string[]).includes(key)) {
+      if (typeof v === 'string') entry[key as typeof STRING_FIELDS[number]] = v;
+      else issues.push(`${where}.${key} must be a string`);
+    } else if ((LIST_FIELDS as readonly string[]).includes(key)) {
+      if (Array.isArray(v) && v.every(t => typeof t === 'string')) entry[key as typeof LIST_FIELDS[number]] = v;
+      else issues.push(`${where}.${key} must be a list of strings`);
+    } else {
+      issues.push(`${where}.${key} is not a known field`);
+    }
+  }
+  return entry;
+}
+
+async function readStructured(key: string): Promise<unknown> {
+  const text = (await readBuffer(key)).toString('utf8');
+  try {
+    return key.endsWith('.json') ? JSON.parse(text) : parseYaml(text);
+  } catch (err) {
+    throw new SidecarError(path.posix.basename(key), [(err as Error).message]);
+  }
+}
+
+// Folder-wide memories.json: { "IMG_0119.JPG": { title, ... }, ... }. An
+// entry for a photo that's gone (deleted by hand, say) is only logged; it's
+// the entries for photos that are there that have to be valid.
+async function readFolderSidecar(folder: string, filenames: string[], names: Set<string>): Promise<Record<string, PhotoSidecar>> {
+  if (!names.has(FOLDER_SIDECAR)) return {};
+
+  const data = await readStructured(`${folder}/${FOLDER_SIDECAR}`);
+  const issues: string[] = [];
+  const entries: Record<string, PhotoSidecar> = {};
+  if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+    throw new SidecarError(FOLDER_SIDECAR, ['top level must be an object keyed by filename']);
+  }
+  const orphans: string[] = [];
+  for (const [filename, value] of Object.entries(data)) {
+    if (!filenames.includes(filename)) {
+      orphans.push(`"${filename}"`);
+      continue;
+    }
+    entries[filename] = validateEntry(value, `"${filename}"`, issues);
+  }
+  if (orphans.length) console.warn(`${folder}/${FOLDER_SIDECAR}: no photo matches ${orphans.join(', ')}`);
+  if (issues.length) throw new SidecarError(FOLDER_SIDECAR, issues);
+  return entries;
+}
+
+// Every name a photo's own sidecar could have, in order of preference
+export function sidecarNames(filename: string): string[] {
+  const stem = filename.replace(/\.[^.]+$/, '');
+  return [filename, stem].flatMap(base => SIDECAR_EXTS.map(ext => base + ext));
+}
+
+export function findPhotoSidecar(filename: string, names: Set<string>): string | null {
+  return sidecarNames(filename).find(name => names.has(name)) ?? null;
+}
+
+// Sidecar metadata for every photo in `folder`; `names` is everything stored
+// in it, sidecars included. A per-image sidecar wins over the folder's
+// memories.json field by field. Throws SidecarError on any malformed file so
+// mistakes surface instead of silently vanishing.
+export async function readSidecars(folder: string, filenames: string[], names: string[]): Promise<Record<string, PhotoSidecar>> {
+  const present = new Set(names);
+  const merged = await readFolderSidecar(folder, filenames, present);
+  for (const filename of filenames) {
+    const sidecar = findPhotoSidecar(filename, present);
+    if (!sidecar) continue;
+    const issues: string[] = [];
+    const entry = validateEntry(await readStructured(`${folder}/${sidecar}`), sidecar, issues);
+    if (issues.length) throw new SidecarError(sidecar, issues);
+    merged[filename] = { ...merged[filename], ...entry };
+  }
+  return merged;
+}
@@ -0,0 +1,47 @@
+import crypto from 'crypto';
+
+// Tamper-proof tokens for the cookies and links the server hands out: a
+// base64url JSON payload and its HMAC, "<payload>.<signature>". The MAC
+// covers what the token is for too, so a share link can't pass for a
+// session cookie or the other way round.
+
+export const mac = (secret: string, data: string) => crypto.createHmac('sha256', secret).update(data).digest('base64url');
+
+export function macEquals(given: string, expected: string): boolean {
+  const a = Buffer.from(given);
+  const b = Buffer.from(expected);
+  return a.length === b.length && crypto.timingSafeEqual(a, b);
+}
+
+export type TokenPurpose = 'session' | 'share';
+
+// A secret of its own for `purpose`, derived from one that's shared, like
+// the edit token when nothing more specific is set
+export const deriveSecret = (base: string, purpose: TokenPurpose) => base && mac(base, `${purpose} secret`);
+
+export function signToken(secret: string, purpose: TokenPurpose, value: object): string {
+  const payload = Buffer.from(JSON.stringify(value)).toString('base64url');
+  return `${payload}.${mac(secret, `${purpose}:${payload}`)}`;
+}
+
+// The payload of a token signed with `secret` for `purpose`; null for anything else
+export function readToken<T>(secret: string, purpose: TokenPurpose, token: string): T | null {
+  const [payload, signature, ...rest] = token.split('.');
+  if (!secret || rest.length || !payload || !signature) return null;
+  if (!macEquals(signature, mac(secret, `${purpose}:${payload}`))) return null;
+  return JSON.parse(Buffer.from(payload, 'base64url').toString('utf8')) as T;
+}
+
+export function cookieValue(req: Request, name: string): string | null {
+  for (const part of req.headers.get('cookie')?.split(';') ?? []) {
+    const [key, ...value] = part.trim().split('=');
+    if (key === name) return value.join('=');
+  }
+  return null;
+}
+
+// Set-Cookie for `value`, dropped by the browser after `maxAge` seconds or,
+// without one, when it closes
+export function cookieHeader(name: string, value: string, maxAge: number | null): string {
+  return `${name}=${value}; Path=/; HttpOnly; SameSite=Lax${maxAge === null ? '' : `; Max-Age=${Math.max(0, Math.floor(maxAge))}`}`;
+}
@@ -0,0 +1,95 @@
+// Slideshow order: which photo (or galaxy) comes next. Pure, so the page
+// only has to keep the history and act on the answer.
+
+export interface SlideshowOptions {
+  interval: number;        // seconds per photo
+  shuffle: boolean;
+  loop: boolean;           // start over after the last photo (or galaxy)
+  acrossGalaxies: boolean; // warp on to the next galaxy at the end of one
+  tour: boolean;           // camera orbits each photo instead of holding still
+}
+
+export const DEFAULT_SLIDESHOW: SlideshowOptions = {
+  interval: 6,
+  shuffle: false,
+  loop: true,
+  acrossGalaxies: false,
+  tour: false,
+};
+
+export const SLIDESHOW_INTERVALS = [3, 6, 10, 20, 60];
+
+interface SlideGalaxy {
+  id: string;
+  photos: { id: string }[];
+  photoTotal: number;
+  nextCursor: string | null;
+}
+
+// What has been shown since the slideshow started (galaxies) or since it
+// entered the current galaxy (photos)
+export interface SlideHistory {
+  photos: string[];
+  galaxies: string[];
+}
+
+export type NextSlide =
+  | { type: 'photo'; photoId: string }
+  | { type: 'galaxy'; galaxyId: string } // warp there; it starts over with firstSlide
+  | { type: 'wait' }                     // the galaxy's next page hasn't streamed in yet
+  | { type: 'end' };
+
+function pick<T>(items: T[], random: () => number): T {
+  return items[Math.floor(random() * items.length)];
+}
+
+// The photo a galaxy's slideshow opens with
+export function firstSlide(galaxy: SlideGalaxy, options: SlideshowOptions, random = Math.random): string | null {
+  if (!galaxy.photos.length) return null;
+  return (options.shuffle ? pick(galaxy.photos, random) : galaxy.photos[0]).id;
+}
+
+export function nextSlide(
+  galaxies: SlideGalaxy[],
+  galaxyId: string,
+  photoId: string,
+  history: SlideHistory,
+  options: SlideshowOptions,
+  random = Math.random,
+): NextSlide {
+  const galaxy = galaxies.find(g => g.id === galaxyId);
+  if (!galaxy) return { type: 'end' };
+
+  // Within the galaxy
+  if (options.shuffle) {
+    const unseen = galaxy.photos.filter(p => !history.photos.includes(p.id));
+    if (unseen.length) return { type: 'photo', photoId: pick(unseen, random).id };
+  } else {
+    const index = galaxy.photos.findIndex(p => p.id === photoId);
+    if (index !== -1 && index + 1 < galaxy.photos.length) return { type: 'photo', photoId: galaxy.photos[index + 1].id };
+  }
+  if (galaxy.nextCursor) return { type: 'wait' };
+
+  // On to another galaxy...
+  if (options.acrossGalaxies) {
+    const others = galaxies.filter(g => g.id !== galaxyId && g.photoTotal > 0);
+    if (options.shuffle) {
+      const unvisited = others.filter(g => !history.galaxies.includes(g.id));
+      if (unvisited.length) return { type: 'galaxy', galaxyId: pick(unvisited, random).id };
+      if (options.loop && others.length) return { type: 'galaxy', galaxyId: pick(others, random).id };
+    } else {
+      const index = galaxies.findIndex(g => g.id === galaxyId);
+      const after = [...galaxies.slice(index + 1), ...(options.loop ? galaxies.slice(0, index) : [])];
+      const next = after.find(g => g.photoTotal > 0);
+      if (next) return { type: 'galaxy', galaxyId: next.id };
+    }
+  }
+
+  // ...or round this one again
+  if (options.loop) {
+    const first = firstSlide(galaxy, options, random);
+    if (first && first !== photoId) return { type: 'photo', photoId: first };
+    if (first && galaxy.photos.length > 1) return nextSlide(galaxies, galaxyId, photoId, { ...history, photos: [photoId] }, options, random);
+  }
+  return { type: 'end' };
+}
@@ -0,0 +1,76 @@
+// Each galaxy's music, derived from its visual DNA: spin speed sets the
+// tempo, color the mode, arm count how busy the melody is, core glow how
+// bright it sounds and thickness how far it echoes. Pure, so the same
+// galaxy always sounds the same; lib/audio.ts plays it.
+import { seededRandom } from './random';
+import type { GalaxyConfig } from './types';
+
+export const AUDIO_EXTS = /\.(mp3|ogg|oga|opus|wav|m4a|aac|flac|webm)$/i;
+
+const AUDIO_TYPES: Record<string, string> = {
+  mp3: 'audio/mpeg',
+  ogg: 'audio/ogg',
+  oga: 'audio/ogg',
+  opus: 'audio/ogg',
+  wav: 'audio/wav',
+  m4a: 'audio/mp4',
+  aac: 'audio/aac',
+  flac: 'audio/flac',
+  webm: 'audio/webm',
+};
+
+export function audioContentType(filename: string): string {
+  return AUDIO_TYPES[filename.split('.').pop()!.toLowerCase()] ?? 'application/octet-stream';
+}
+
+export interface Soundscape {
+  key: string;         // the same key keeps playing instead of crossfading to itself
+  seed: string;        // for the melody's random walk
+  tempo: number;       // beats per minute
+  root: number;        // Hz
+  scale: number[];     // semitones above the root
+  notesPerBar: number;
+  brightness: number;  // low-pass cutoff, Hz
+  echo: number;        // delay feedback, 0-1
+  file?: string;       // URL of the galaxy's own music, played instead
+}
+
+// Darkest to brightest, picked around the color wheel
+const MODES: { from: number; scale: number[] }[] = [
+  { from: 0, scale: [0, 1, 3, 5, 7, 8, 10] },    // red: phrygian
+  { from: 30, scale: [0, 2, 4, 5, 7, 9, 10] },   // orange: mixolydian
+  { from: 60, scale: [0, 2, 4, 5, 7, 9, 11] },   // yellow-green: ionian
+  { from: 120, scale: [0, 2, 4, 6, 7, 9, 11] },  // green-cyan: lydian
+  { from: 180, scale: [0, 2, 3, 5, 7, 9, 10] },  // blue: dorian
+  { from: 240, scale: [0, 2, 3, 5, 7, 8, 10] },  // violet: aeolian
+  { from: 300, scale: [0, 1, 3, 5, 7, 8, 10] },  // magenta: phrygian
+];
+
+function hue(hex: string): number {
+  const [r, g, b] = [1, 3, 5].map(i => parseInt(hex.slice(i, i + 2), 16) / 255);
+  const max = Math.max(r, g, b);
+  const d = max - Math.min(r, g, b);
+  if (d === 0) return 0;
+  const h = max === r ? ((g - b) / d) % 6 : max === g ? (b - r) / d + 2 : (r - g) / d + 4;
+  return (h * 60 + 360) % 360;
+}
+
+const clamp = (v: number, min: number, max: number) => Math.min(max, Math.max(min, v));
+
+export const musicUrl = (folder: string, file: string) => `/api/audio/${folder}/${encodeURIComponent(file)}`;
+
+export function soundscapeFor(galaxy: GalaxyConfig): Soundscape {
+  const h = hue(galaxy.color);
+  const mode = [...MODES].reverse().find(m => h >= m.from)!;
+  return {
+    key: galaxy.music ? `${galaxy.id}/${galaxy.music}` : galaxy.id,
+    seed: galaxy.id,
+    tempo: Math.round(clamp(50 + galaxy.spinSpeed * 40, 50, 140)),
+    root: 110 * 2 ** (Math.floor(seededRandom(galaxy.id)() * 12) / 12), // A2 to G#3
+    scale: mode.scale,
+    notesPerBar: clamp(galaxy.arms, 2, 8),
+    brightness: Math.round(clamp(500 + galaxy.coreGlow * 900, 500, 4000)),
+    echo: clamp(0.2 + galaxy.thickness * 0.3, 0.2, 0.7),
+    file: galaxy.music ? musicUrl(galaxy.folder, galaxy.music) : undefined,
+  };
+}
@@ -0,0 +1,121 @@
+import fs from 'fs';
+import path from 'path';
+import { Readable } from 'stream';
+import { S3Storage } from './s3-storage';
+
+// A file in the memories store. Keys are "/"-separated and relative to the
+// store's root: "travel/IMG_2427.JPG", "travel/galaxy.json".
+export interface StoredFile {
+  key: string;
+  name: string;
+  size: number;
+  mtimeMs: number;
+}
+
+// Inclusive, like an HTTP Range header
+export interface ByteRange {
+  start: number;
+  end: number;
+}
+
+// Where galaxies and their photos live. Every read and write of memories
+// goes through one of these, picked by STORAGE_BACKEND.
+export interface StorageAdapter {
+  // Files and sub-folders directly inside `prefix` ("" for the root)
+  list(prefix: string): Promise<{ files: StoredFile[]; folders: string[] }>;
+  stat(key: string): Promise<StoredFile | null>;
+  read(key: string, range?: ByteRange): Promise<Readable>;
+  write(key: string, data: Buffer): Promise<void>;
+  // Replaces `to` if it exists; readers never see a partial copy
+  copy(from: string, to: string): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+export const MEMORIES_DIR = path.join(process.cwd(), 'memories');
+
+// Plain folders on disk — memories/ unless MEMORIES_DIR says otherwise. It
+// sits outside public/ so photos are only ever served through the API, which
+// checks who's asking.
+// Like a bucket prefix, a folder goes away once the last file in it is deleted.
+export class LocalStorage implements StorageAdapter {
+  constructor(private root: string) {}
+
+  private resolve(key: string): string {
+    const file = path.resolve(this.root, key);
+    if (file !== this.root && !file.startsWith(this.root + path.sep)) throw new Error(`Key outside storage root: ${key}`);
+    return file;
+  }
+
+  async list(prefix: string) {
+    const dir = this.resolve(prefix);
+    const entries = await fs.promises.readdir(dir, { withFileTypes: true }).catch(() => []);
+    const files: StoredFile[] = [];
+    const folders: string[] = [];
+    for (const entry of entries) {
+      if (entry.isDirectory()) {
+        folders.push(entry.name);
+      } else if (entry.isFile()) {
+        const { size, mtimeMs } = await fs.promises.stat(path.join(dir, entry.name));
+        files.push({ key: prefix ? `${prefix}/${entry.name}` : entry.name, name: entry.name, size, mtimeMs });
+      }
+    }
+    return { files, folders };
+  }
+
+  async stat(key: string): Promise<StoredFile | null> {
+    const stat = await fs.promises.stat(this.resolve(key)).catch(() => null);
+    if (!stat?.isFile()) return null;
+    return { key, name: path.posix.basename(key), size: stat.size, mtimeMs: stat.mtimeMs };
+  }
+
+  async read(key: string, range?: ByteRange): Promise<Readable> {
+    const file = this.resolve(key);
+    await fs.promises.access(file);
+    return fs.createReadStream(file, range);
+  }
+
+  // Written under a dot-name first so a half-written file is never listed
+  private async replace(key: string, fill: (temp: string) => Promise<void>): Promise<void> {
+    const file = this.resolve(key);
+    await fs.promises.mkdir(path.dirname(file), { recursive: true });
+    const temp = path.join(path.dirname(file), `.${path.basename(file)}.${process.pid}.part`);
+    await fill(temp);
+    await fs.promises.rename(temp, file);
+  }
+
+  async write(key: string, data: Buffer): Promise<void> {
+    await this.replace(key, temp => fs.promises.writeFile(temp, data));
+  }
+
+  async copy(from: string, to: string): Promise<void> {
+    const source = this.resolve(from);
+    await this.replace(to, temp => fs.promises.copyFile(source, temp));
+  }
+
+  async delete(key: string): Promise<void> {
+    const file = this.resolve(key);
+    await fs.promises.rm(file, { force: true });
+    const dir = path.dirname(file);
+    if (dir !== this.root) await fs.promises.rmdir(dir).catch(() => undefined); // only succeeds once empty
+  }
+}
+
+function createStorage(): StorageAdapter {
+  const backend = process.env.STORAGE_BACKEND ?? 'local';
+  if (backend === 'local') return new LocalStorage(path.resolve(process.env.MEMORIES_DIR ?? MEMORIES_DIR));
+  if (backend === 's3') return S3Storage.fromEnv();
+  throw new Error(`Unknown STORAGE_BACKEND "${backend}" (expected "local" or "s3")`);
+}
+
+let instance: StorageAdapter | null = null;
+
+export function storage(): StorageAdapter {
+  instance ??= createStorage();
+  return instance;
+}
+
+export async function readBuffer(key: string, range?: ByteRange): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of await storage().read(key, range)) chunks.push(Buffer.from(chunk));
+  return Buffer.concat(chunks);
+}
@@ -0,0 +1,31 @@
+import { canSeeGalaxy, canSeePhoto, type Viewer } from './access';
+import { listGalaxies } from './galaxies';
+import { listPhotos } from './photos';
+import { SidecarError } from './sidecar';
+import type { GalaxyPhoto } from './types';
+
+// Every photo with a capture date, from every galaxy, oldest first. Photos
+// without EXIF dates can't be placed in time and are left out, as is
+// anything `viewer` may not see.
+export async function listTimeline(viewer: Viewer): Promise<GalaxyPhoto[]> {
+  const entries: GalaxyPhoto[] = [];
+  for (const galaxy of (await listGalaxies()).filter(g => canSeeGalaxy(viewer, g))) {
+    // A broken sidecar in one galaxy leaves that galaxy out, not the whole timeline
+    const page = await listPhotos(galaxy.folder).catch(err => {
+      if (!(err instanceof SidecarError)) throw err;
+      console.warn(`Skipping galaxy "${galaxy.folder}":`, err.message);
+      return null;
+    });
+    for (const photo of page?.photos ?? []) {
+      if (!photo.exif?.takenAt || !canSeePhoto(viewer, galaxy, photo.filename)) continue;
+      entries.push({
+        galaxyId: galaxy.id,
+        galaxyName: galaxy.name,
+        color: galaxy.color,
+        photo: { ...photo, title: photo.title || galaxy.photoTitle, description: photo.description || galaxy.photoDesc },
+      });
+    }
+  }
+  // takenAt is "YYYY-MM-DDTHH:mm:ss[+hh:mm]", so string order is time order
+  return entries.sort((a, b) => a.photo.exif!.takenAt!.localeCompare(b.photo.exif!.takenAt!));
+}
@@ -0,0 +1,73 @@
+// Shared between the API routes and the gallery client.
+
+// Camera details read from a photo's EXIF block. Every field is optional:
+// screenshots, edited exports and messenger downloads often carry none of it.
+export interface PhotoExif {
+  takenAt?: string;      // local capture time, "YYYY-MM-DDTHH:mm:ss" (+ offset when the camera wrote one)
+  make?: string;
+  camera?: string;       // camera model, e.g. "iPhone 15"
+  lens?: string;
+  exposureTime?: number; // seconds
+  fNumber?: number;
+  iso?: number;
+  focalLength?: number;  // mm, 35mm-equivalent when available
+  orientation?: number;  // EXIF orientation tag, 1-8
+  gps?: { lat: number; lng: number; altitude?: number };
+}
+
+export interface PhotoMetadata {
+  id: string;
+  url: string;       // full size — the original, or a transcoded copy when needsConversion
+  thumbUrl: string;  // small WebP/AVIF derivative from /api/image
+  needsConversion: boolean; // HEIC/HEIF/TIFF: the browser gets a transcoded copy
+  filename: string;
+  title: string;
+  date: string;
+  description: string;
+  tags: string[];
+  people: string[];
+  exif?: PhotoExif;
+}
+
+// One page of /api/photos/[folder]; pass nextCursor back as ?cursor= for more
+export interface PhotoPage {
+  photos: PhotoMetadata[];
+  nextCursor: string | null;
+  total: number;
+}
+
+// Who can see a galaxy: anyone, signed-in family, or only the owner
+export type Visibility = 'public' | 'family' | 'private';
+
+// A galaxy as served by /api/galaxies — one per folder in memories/
+export interface GalaxyConfig {
+  id: string;
+  name: string;
+  color: string;
+  position?: [number, number, number]; // pinned; otherwise placed by the layout engine
+  rotation?: [number, number, number];
+  folder: string;
+  photoTitle: string;
+  photoDate: string;
+  photoDesc: string;
+  // Visual DNA — each galaxy has its own personality
+  arms: number;         // spiral arm count
+  thickness: number;    // disc height multiplier (0.3=flat, 1.5=puffy)
+  spinSpeed: number;    // rotation speed multiplier
+  coreGlow: number;     // core point-light intensity multiplier
+  music?: string;       // audio file in the galaxy's folder, looped instead of its generated soundscape
+  visibility: Visibility;
+}
+
+// A photo together with the galaxy it belongs to, for views that mix galaxies
+export interface GalaxyPhoto {
+  galaxyId: string;
+  galaxyName: string;
+  color: string;
+  photo: PhotoMetadata;
+}
+
+// One hit from /api/search
+export interface SearchResult extends GalaxyPhoto {
+  score: number;
+}
@@ -0,0 +1,130 @@
+import crypto from 'crypto';
+import path from 'path';
+import { inFolderQueue } from './folder-queue';
+import { stripMetadata } from './images';
+import { IMAGE_EXTS, safeFolderName } from './photos';
+import { readBuffer, storage, type StoredFile } from './storage';
+
+export const MAX_UPLOAD_BYTES = Number(process.env.UPLOAD_MAX_BYTES) || 25 * 1024 * 1024;
+
+// UPLOAD_EXIF=strip re-encodes uploads without EXIF/GPS; the default keeps the
+// original bytes, so capture dates and locations still reach the timeline and globe
+export const UPLOAD_EXIF: 'keep' | 'strip' = process.env.UPLOAD_EXIF === 'strip' ? 'strip' : 'keep';
+
+// Anything the upload route should answer with a specific status
+export class UploadError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+    this.name = 'UploadError';
+  }
+}
+
+// What the file's first bytes say it is — the declared MIME type is only a hint
+interface ImageType {
+  mime: string;
+  ext: string;       // used when the uploaded name's extension doesn't fit
+  exts: RegExp;      // extensions that already fit
+}
+
+const TYPES: Record<string, ImageType> = {
+  jpeg: { mime: 'image/jpeg', ext: '.jpg', exts: /\.jpe?g$/i },
+  png: { mime: 'image/png', ext: '.png', exts: /\.png$/i },
+  gif: { mime: 'image/gif', ext: '.gif', exts: /\.gif$/i },
+  webp: { mime: 'image/webp', ext: '.webp', exts: /\.webp$/i },
+  tiff: { mime: 'image/tiff', ext: '.tiff', exts: /\.tiff?$/i },
+  avif: { mime: 'image/avif', ext: '.avif', exts: /\.avif$/i },
+  heic: { mime: 'image/heic', ext: '.heic', exts: /\.heic$/i },
+  heif: { mime: 'image/heif', ext: '.heif', exts: /\.heif$/i },
+};
+
+export function sniffImage(data: Buffer): ImageType | null {
+  const ascii = (start: number, end: number) => data.subarray(start, end).toString('latin1');
+  if (data[0] === 0xff && data[1] === 0xd8 && data[2] === 0xff) return TYPES.jpeg;
+  if (data.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))) return TYPES.png;
+  if (ascii(0, 4) === 'GIF8') return TYPES.gif;
+  if (ascii(0, 4) === 'RIFF' && ascii(8, 12) === 'WEBP') return TYPES.webp;
+  if (ascii(0, 4) === 'II*\0' || ascii(0, 4) === 'MM\0*') return TYPES.tiff;
+  if (ascii(4, 8) === 'ftyp') {
+    // ISO-BMFF: major brand, then compatible brands up to the end of the box
+    const boxEnd = Math.min(data.readUInt32BE(0), data.length);
+    const brands = [ascii(8, 12)];
+    for (let i = 16; i + 4 <= boxEnd; i += 4) brands.push(ascii(i, i + 4));
+    if (brands.some(b => b === 'avif' || b === 'avis')) return TYPES.avif;
+    if (brands.some(b => ['heic', 'heix', 'hevc', 'hevx', 'heim', 'heis'].includes(b))) return TYPES.heic;
+    if (brands.some(b => b === 'mif1' || b === 'msf1')) return TYPES.heif;
+  }
+  return null;
+}
+
+// Browsers send an empty or generic type for HEIC and other less common formats
+function declaredTypeOk(type: string): boolean {
+  return !type || type === 'application/octet-stream' || type.startsWith('image/');
+}
+
+// Content hashes of files already in a folder, reused until a file changes
+const hashCache = new Map<string, { mtimeMs: number; size: number; hash: string }>();
+
+function hashOf(data: Buffer): string {
+  return crypto.createHash('sha256').update(data).digest('hex');
+}
+
+async function fileHash(file: StoredFile): Promise<string> {
+  const cached = hashCache.get(file.key);
+  if (cached && cached.mtimeMs === file.mtimeMs && cached.size === file.size) return cached.hash;
+  const hash = hashOf(await readBuffer(file.key));
+  hashCache.set(file.key, { mtimeMs: file.mtimeMs, size: file.size, hash });
+  return hash;
+}
+
+// "My Photo (1).JPG" -> "My_Photo_1.JPG", then "-2", "-3"... until it's free
+function freeFilename(taken: string[], name: string, type: ImageType): string {
+  const original = path.basename(name);
+  const ext = type.exts.test(original) ? path.extname(original) : type.ext;
+  const base = path.basename(original, path.extname(original)).replace(/[^a-zA-Z0-9_\-]+/g, '_').replace(/^_+|_+$/g, '') || 'upload';
+  let candidate = `${base}${ext}`;
+  for (let n = 2; taken.includes(candidate); n++) candidate = `${base}-${n}${ext}`;
+  return candidate;
+}
+
+// Validates an uploaded file and writes it into the galaxy's folder. A file
+// with the same content as one already there isn't written again; its
+// existing filename comes back with `duplicate: true`. Throws UploadError.
+export async function saveUpload(folder: string, file: File): Promise<{ filename: string; duplicate: boolean }> {
+  const safe = safeFolderName(folder);
+  if (!safe || !(await storage().list('')).folders.includes(safe)) throw new UploadError(404, `No galaxy folder "${folder}"`);
+
+  if (file.size > MAX_UPLOAD_BYTES) {
+    throw new UploadError(413, `${file.name} is larger than ${Math.round(MAX_UPLOAD_BYTES / 1024 / 1024)} MB`);
+  }
+  if (!declaredTypeOk(file.type)) throw new UploadError(415, `${file.name} is ${file.type}, not an image`);
+
+  let data: Buffer = Buffer.from(await file.arrayBuffer());
+  const type = sniffImage(data);
+  if (!type) throw new UploadError(415, `${file.name} is not a supported image (JPEG, PNG, GIF, WebP, AVIF, HEIC/HEIF or TIFF)`);
+
+  let name = file.name;
+  if (UPLOAD_EXIF === 'strip') {
+    const stripped = await stripMetadata(data, type.exts.test(name) ? path.extname(name) : type.ext).catch(() => {
+      throw new UploadError(415, `${file.name} could not be decoded`);
+    });
+    data = stripped.data;
+    name = path.basename(name, path.extname(name)) + stripped.ext;
+  }
+  const finalType = sniffImage(data) ?? type;
+
+  // Queued, so two copies of the same file can't both pass the duplicate check
+  return inFolderQueue(safe, async () => {
+    // ...and the galaxy can't be deleted or renamed out from under it
+    if (!(await storage().list('')).folders.includes(safe)) throw new UploadError(404, `No galaxy folder "${folder}"`);
+    const { files } = await storage().list(safe);
+    const hash = hashOf(data);
+    for (const existing of files.filter(f => IMAGE_EXTS.test(f.name))) {
+      // Only files of the same size can have the same content
+      if (existing.size === data.length && await fileHash(existing) === hash) return { filename: existing.name, duplicate: true };
+    }
+
+    const filename = freeFilename(files.map(f => f.name), name, finalType);
+    await storage().write(`${safe}/${filename}`, data);
+    return { filename, duplicate: false };
+  });
+}
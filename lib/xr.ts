@@ -0,0 +1,61 @@
+// Immersive VR on the gallery's own renderer. The viewer moves by offsetting
+// the XR reference space: an instant teleport to where the desktop camera
+// would have glided, which is far easier on the stomach, and turns in fixed
+// steps for the same reason.
+import * as THREE from 'three';
+
+const EYE_HEIGHT = 1.6;          // m above the floor of a floor-level space
+const SNAP_TURN = Math.PI / 6;
+const UP = new THREE.Vector3(0, 1, 0);
+
+// pointerType of the pointer events replayed from a controller's ray
+export const XR_POINTER = 'xr-controller';
+
+type Vec3 = [number, number, number];
+
+export class XRViewer {
+  private position = new THREE.Vector3();
+  private yaw = 0; // radians, counterclockwise seen from above; 0 faces -z
+
+  constructor(private xr: THREE.WebXRManager, private base: XRReferenceSpace, private floor: boolean) { }
+
+  // Stands the viewer with their eyes at `eye`, facing `target`
+  moveTo(eye: Vec3, target: Vec3) {
+    this.position.set(eye[0], eye[1] - (this.floor ? EYE_HEIGHT : 0), eye[2]);
+    this.yaw = Math.atan2(eye[0] - target[0], eye[2] - target[2]);
+    this.apply();
+  }
+
+  // 1 turns right, -1 left
+  turn(direction: 1 | -1) {
+    this.yaw -= direction * SNAP_TURN;
+    this.apply();
+  }
+
+  // The offset space's origin, in the base space, that puts the viewer's
+  // base origin at `position` looking along `yaw`
+  private apply() {
+    const rotation = new THREE.Quaternion().setFromAxisAngle(UP, -this.yaw);
+    const origin = this.position.clone().applyQuaternion(rotation).negate();
+    this.xr.setReferenceSpace(this.base.getOffsetReferenceSpace(new XRRigidTransform(
+      { x: origin.x, y: origin.y, z: origin.z },
+      { x: rotation.x, y: rotation.y, z: rotation.z, w: rotation.w },
+    )));
+  }
+}
+
+export async function isXRSupported(): Promise<boolean> {
+  if (typeof navigator === 'undefined' || !navigator.xr) return false;
+  return navigator.xr.isSessionSupported('immersive-vr').catch(() => false);
+}
+
+// Starts a VR session on `xr`, standing on the floor where the device (or
+// the WebXR emulator) knows where that is
+export async function startXRSession(xr: THREE.WebXRManager): Promise<XRViewer> {
+  if (!navigator.xr) throw new Error('WebXR is not available');
+  const session = await navigator.xr.requestSession('immersive-vr', { optionalFeatures: ['local-floor'] });
+  const floor = await session.requestReferenceSpace('local-floor').then(() => true, () => false);
+  xr.setReferenceSpaceType(floor ? 'local-floor' : 'local');
+  await xr.setSession(session);
+  return new XRViewer(xr, xr.getReferenceSpace()!, floor);
+}
@@ -1,7 +1,9 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
-  /* config options here */
+  // exifr loads fs/zlib lazily at runtime and heic-decode ships a wasm bundle;
+  // neither survives the server bundler
+  serverExternalPackages: ["exifr", "heic-decode"],
 };
 
 export default nextConfig;